@@ -0,0 +1,714 @@
+// Stand-in server for the binary stream transport (StreamMode "binary").
+//
+//   node scripts/stream-server.mjs        (PORT defaults to 3000)
+//
+// Implements the session REST endpoints (including pause, resume, reset,
+// speed and rewind) and the raw WebSocket at /stream described in
+// src/api/transport/binary-protocol.ts, with no dependencies.
+// Instead of an emulator it streams a static test pattern with a square
+// moved by the D-pad, and a tone while A is held, which is enough to check
+// framing, input round trips and latency. Node has no HTTP/3, so
+// WebTransport is never offered and media stays on the WebSocket.
+
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 3000;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const WIDTH = 240;
+const HEIGHT = 160;
+const FRAME_INTERVAL_MS = 1000 / 59.73;
+const AUDIO_RATE = 32768;
+const SQUARE_SIZE = 16;
+
+const MESSAGE_VIDEO = 0x01;
+const MESSAGE_AUDIO = 0x02;
+const MESSAGE_INPUT_APPLIED = 0x03;
+const FORMAT_IDS = { rgb565: 2, rgba: 3 };
+const HELD_BUTTONS_MARKER = 0xff;
+const INPUT_STATE_MARKER = 0xfe;
+const MAX_PENDING_INPUT_STATES = 120;
+const MIN_SPEED = 0.25;
+const MAX_SPEED = 4;
+const MAX_REWIND_SECONDS = 120;
+const MAX_REWIND_GRANULARITY = 30;
+// Same ids as src/api/input-protocol.ts
+const BUTTONS = [
+  "A",
+  "B",
+  "SELECT",
+  "START",
+  "UP",
+  "DOWN",
+  "LEFT",
+  "RIGHT",
+  "L",
+  "R",
+];
+
+const sessions = new Map();
+
+function createSession(id) {
+  const session = {
+    id,
+    running: false,
+    paused: false,
+    // Emulated frames per tick, the remainder carries over
+    speed: 1,
+    frameCarry: 0,
+    // { bufferSeconds, granularityFrames } when the client asked for rewind
+    rewind: null,
+    // Snapshots every granularityFrames frames, oldest first
+    rewindBuffer: [],
+    rewinding: false,
+    streamMode: "binary",
+    x: (WIDTH - SQUARE_SIZE) / 2,
+    y: (HEIGHT - SQUARE_SIZE) / 2,
+    held: new Set(),
+    inputSeq: null,
+    inputEncoding: "events",
+    // Server frame minus client frame, fixed by the first state received
+    inputFrameOffset: null,
+    pendingInputStates: [],
+    // Last held mask reported to the clients, null to report the next one
+    appliedMask: null,
+    clients: new Set(),
+    seq: 0,
+    audioPhase: 0,
+    audioCarry: 0,
+  };
+  sessions.set(id, session);
+  return session;
+}
+
+function emulatorState(session) {
+  return {
+    paused: session.paused,
+    speed: session.speed,
+    rewinding: session.rewinding,
+  };
+}
+
+function parseRewind(rewind) {
+  if (!rewind?.enabled) return null;
+  const clamp = (value, min, max) =>
+    Math.min(max, Math.max(min, Math.round(Number(value)) || min));
+  return {
+    enabled: true,
+    bufferSeconds: clamp(rewind.bufferSeconds, 1, MAX_REWIND_SECONDS),
+    granularityFrames: clamp(
+      rewind.granularityFrames,
+      1,
+      MAX_REWIND_GRANULARITY
+    ),
+  };
+}
+
+function rewindCapacity(rewind) {
+  return Math.ceil(
+    (rewind.bufferSeconds * 1000) / FRAME_INTERVAL_MS / rewind.granularityFrames
+  );
+}
+
+// The test pattern's whole state is the square's position and the frame
+// counter
+function recordRewindSnapshot(session) {
+  const { rewind, rewindBuffer } = session;
+  if (!rewind || session.seq % rewind.granularityFrames !== 0) return;
+
+  rewindBuffer.push({ x: session.x, y: session.y, seq: session.seq });
+  if (rewindBuffer.length > rewindCapacity(rewind)) rewindBuffer.shift();
+}
+
+// Input states queued while rewinding were numbered against the rewound
+// counter; the last one still says what is held now
+function stopRewind(session) {
+  session.rewinding = false;
+  session.frameCarry = 0;
+  session.inputFrameOffset = null;
+  const last = session.pendingInputStates.at(-1);
+  if (last) session.held = maskToButtons(last.mask);
+  session.pendingInputStates = [];
+}
+
+// A soft reset only recentres the square; a hard one also drops held input
+// and the tone, as a power cycle would
+function resetSession(session, kind) {
+  session.x = (WIDTH - SQUARE_SIZE) / 2;
+  session.y = (HEIGHT - SQUARE_SIZE) / 2;
+  if (kind === "hard") {
+    session.held = new Set();
+    session.pendingInputStates = [];
+    session.audioPhase = 0;
+  }
+}
+
+// --- REST -------------------------------------------------------------------
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    });
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url, "http://localhost");
+  const match = pathname.match(
+    /^\/api\/emulator\/sessions(?:\/([^/]+))?(?:\/(start|stream-mode|pause|resume|reset|speed|rewind-start|rewind-stop))?$/
+  );
+  if (!match) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  const [, id, action] = match;
+
+  if (!id && req.method === "POST") {
+    const body = await readJson(req);
+    const session = createSession(randomUUID());
+    session.streamMode = body.streamMode ?? "binary";
+    session.inputEncoding = (body.inputEncodings ?? []).includes("state")
+      ? "state"
+      : "events";
+    session.rewind = parseRewind(body.rewind);
+    console.log(
+      `[session] created ${session.id} (${body.romPath ?? "no rom"})`
+    );
+    sendJson(res, 200, {
+      sessionId: session.id,
+      inputEncoding: session.inputEncoding,
+      rewind: session.rewind,
+    });
+    return;
+  }
+
+  const session = sessions.get(id);
+  if (!session) {
+    sendJson(res, 404, { error: "Session not found" });
+    return;
+  }
+
+  if (action === "start" && req.method === "POST") {
+    session.running = true;
+    sendJson(res, 200, { success: true });
+  } else if (action === "pause" && req.method === "POST") {
+    session.paused = true;
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "resume" && req.method === "POST") {
+    session.paused = false;
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "reset" && req.method === "POST") {
+    const { kind } = await readJson(req);
+    resetSession(session, kind === "hard" ? "hard" : "soft");
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "speed" && req.method === "PUT") {
+    const speed = Number((await readJson(req)).speed);
+    if (!Number.isFinite(speed)) {
+      sendJson(res, 400, { error: "Invalid speed" });
+      return;
+    }
+    session.speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "rewind-start" && req.method === "POST") {
+    if (!session.rewind) {
+      sendJson(res, 409, { error: "Rewind is not enabled for this session" });
+      return;
+    }
+    session.rewinding = true;
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "rewind-stop" && req.method === "POST") {
+    if (session.rewinding) stopRewind(session);
+    sendJson(res, 200, emulatorState(session));
+  } else if (action === "stream-mode" && req.method === "PATCH") {
+    session.streamMode = (await readJson(req)).mode ?? session.streamMode;
+    sendJson(res, 200, { success: true });
+  } else if (action === "stream-mode" && req.method === "GET") {
+    sendJson(res, 200, { streamMode: session.streamMode });
+  } else if (!action && req.method === "DELETE") {
+    session.clients.forEach((client) => closeClient(client));
+    sessions.delete(id);
+    sendJson(res, 200, { success: true });
+  } else {
+    sendJson(res, 405, { error: "Method not allowed" });
+  }
+});
+
+// --- WebSocket framing (RFC 6455) -------------------------------------------
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+// Calls onMessage(opcode, payload) for each complete, unmasked message
+function createFrameParser(onMessage) {
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentOpcode = 0;
+
+  return (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+
+    for (;;) {
+      if (buffered.length < 2) return;
+
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffered.length < offset + length) return;
+
+      let payload = buffered.subarray(offset, offset + length);
+      if (masked) {
+        const mask = buffered.subarray(maskOffset, maskOffset + 4);
+        payload = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+      }
+      buffered = buffered.subarray(offset + length);
+
+      if (opcode >= 0x8) {
+        // Control frames are never fragmented
+        onMessage(opcode, payload);
+      } else if (opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          onMessage(fragmentOpcode, Buffer.concat(fragments));
+          fragments = [];
+        }
+      } else if (fin) {
+        onMessage(opcode, payload);
+      } else {
+        fragmentOpcode = opcode;
+        fragments = [payload];
+      }
+    }
+  };
+}
+
+// --- Stream clients ---------------------------------------------------------
+
+function send(client, opcode, payload) {
+  if (!client.socket.destroyed) {
+    client.socket.write(encodeFrame(opcode, payload));
+  }
+}
+
+function sendControl(client, message) {
+  send(client, 0x1, Buffer.from(JSON.stringify(message)));
+}
+
+function closeClient(client) {
+  client.session?.clients.delete(client);
+  client.session = null;
+  if (!client.socket.destroyed) {
+    client.socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+  }
+}
+
+function handleControl(client, message) {
+  switch (message.type) {
+    case "subscribe": {
+      const session = sessions.get(message.sessionId);
+      if (!session) {
+        sendControl(client, {
+          type: "error",
+          requestId: message.requestId,
+          error: "Session not found",
+        });
+        return;
+      }
+      client.session?.clients.delete(client);
+      client.session = session;
+      client.format = (message.frameFormats ?? []).find(
+        (format) => format in FORMAT_IDS
+      );
+      session.clients.add(client);
+      // A new page starts its input sequence over
+      session.inputSeq = null;
+      session.inputFrameOffset = null;
+      session.pendingInputStates = [];
+      // So the new client learns what is held
+      session.appliedMask = null;
+      sendControl(client, { type: "subscribed", requestId: message.requestId });
+      break;
+    }
+
+    case "save-state": {
+      const session = client.session;
+      sendControl(client, {
+        type: "save-state-result",
+        requestId: message.requestId,
+        success: !!session,
+        stateData: session
+          ? Buffer.from(
+              JSON.stringify({ x: session.x, y: session.y })
+            ).toString("base64")
+          : undefined,
+        frame: session?.seq,
+        error: session ? undefined : "Not subscribed",
+      });
+      break;
+    }
+
+    case "load-state": {
+      const session = client.session;
+      let success = false;
+      try {
+        const state = JSON.parse(
+          Buffer.from(message.stateData, "base64").toString()
+        );
+        if (session && Number.isFinite(state.x) && Number.isFinite(state.y)) {
+          session.x = state.x;
+          session.y = state.y;
+          success = true;
+        }
+      } catch {
+        success = false;
+      }
+      sendControl(client, {
+        type: "load-state-result",
+        requestId: message.requestId,
+        success,
+        error: success ? undefined : "Invalid state",
+      });
+      break;
+    }
+  }
+}
+
+// Sequence numbers are u16 and wrap
+function isSeqNewer(seq, last) {
+  if (last === null) return true;
+  const delta = (seq - last) & 0xffff;
+  return delta !== 0 && delta < 0x8000;
+}
+
+// Input event: button u8, state u8, seq u16, timestamp u32. Held buttons:
+// marker u8, reserved u8, seq u16, timestamp u32, mask u16
+function handleInput(client, payload) {
+  const { session } = client;
+  if (!session || payload.length < 8) return;
+  const view = new DataView(
+    payload.buffer,
+    payload.byteOffset,
+    payload.byteLength
+  );
+
+  // Input state: marker u8, reserved u8, mask u16, frame u32. Applied on the
+  // emulator frame it maps to, see applyInputStates
+  if (payload[0] === INPUT_STATE_MARKER) {
+    const frame = view.getUint32(4, true);
+    session.inputFrameOffset ??= session.seq + 1 - frame;
+    session.pendingInputStates.push({
+      frame: frame + session.inputFrameOffset,
+      mask: view.getUint16(2, true),
+    });
+    // Nothing drains the queue while the session is paused
+    if (session.pendingInputStates.length > MAX_PENDING_INPUT_STATES) {
+      session.pendingInputStates.shift();
+    }
+    return;
+  }
+
+  const seq = view.getUint16(2, true);
+  if (payload[0] === HELD_BUTTONS_MARKER) {
+    // Only a snapshot at least as recent as the last event repairs state
+    if (payload.length < 10) return;
+    if (session.inputSeq !== null && isSeqNewer(session.inputSeq, seq)) {
+      return;
+    }
+    const mask = view.getUint16(8, true);
+    session.held = maskToButtons(mask);
+    return;
+  }
+
+  const button = BUTTONS[payload[0]];
+  if (!button || !isSeqNewer(seq, session.inputSeq)) return;
+  session.inputSeq = seq;
+  if (payload[1] === 1) {
+    session.held.add(button);
+  } else {
+    session.held.delete(button);
+  }
+}
+
+server.on("upgrade", (req, socket) => {
+  const { pathname } = new URL(req.url, "http://localhost");
+  const key = req.headers["sec-websocket-key"];
+  if (pathname !== "/stream" || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WS_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n")
+  );
+  socket.setNoDelay(true);
+
+  const client = { socket, session: null, format: undefined };
+
+  socket.on(
+    "data",
+    createFrameParser((opcode, payload) => {
+      if (opcode === 0x1) {
+        try {
+          handleControl(client, JSON.parse(payload.toString()));
+        } catch {
+          sendControl(client, { type: "error", error: "Malformed message" });
+        }
+      } else if (opcode === 0x2) {
+        handleInput(client, payload);
+      } else if (opcode === 0x8) {
+        closeClient(client);
+      } else if (opcode === 0x9) {
+        send(client, 0xa, payload);
+      }
+    })
+  );
+  socket.on("close", () => client.session?.clients.delete(client));
+  socket.on("error", () => client.session?.clients.delete(client));
+});
+
+// --- Test pattern -----------------------------------------------------------
+
+function renderFrame(session) {
+  const rgba = Buffer.alloc(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const o = (y * WIDTH + x) * 4;
+      const inSquare =
+        x >= session.x &&
+        x < session.x + SQUARE_SIZE &&
+        y >= session.y &&
+        y < session.y + SQUARE_SIZE;
+      const bar = Math.floor((x / WIDTH) * 8);
+      rgba[o] = inSquare ? 255 : bar & 1 ? 192 : 32;
+      rgba[o + 1] = inSquare ? 255 : bar & 2 ? 192 : 32;
+      rgba[o + 2] = inSquare ? 255 : bar & 4 ? 192 : 32;
+      rgba[o + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+function toRgb565(rgba) {
+  const output = Buffer.alloc((rgba.length / 4) * 2);
+  for (let i = 0; i < rgba.length / 4; i++) {
+    const value =
+      ((rgba[i * 4] >> 3) << 11) |
+      ((rgba[i * 4 + 1] >> 2) << 5) |
+      (rgba[i * 4 + 2] >> 3);
+    output.writeUInt16LE(value, i * 2);
+  }
+  return output;
+}
+
+function videoMessage(format, seq, pixels) {
+  const header = Buffer.alloc(10);
+  header[0] = MESSAGE_VIDEO;
+  header[1] = FORMAT_IDS[format];
+  header.writeUInt16LE(WIDTH, 2);
+  header.writeUInt16LE(HEIGHT, 4);
+  header.writeUInt32LE(seq >>> 0, 6);
+  return Buffer.concat([header, pixels]);
+}
+
+// One tick of stereo PCM16, a 440 Hz tone while A is held
+function audioMessage(session) {
+  const exact = AUDIO_RATE / 59.73 + session.audioCarry;
+  const frames = Math.floor(exact);
+  session.audioCarry = exact - frames;
+
+  const pcm = Buffer.alloc(frames * 4);
+  const playing = session.held.has("A");
+  for (let i = 0; i < frames; i++) {
+    const sample = playing
+      ? Math.round(Math.sin(session.audioPhase) * 8000)
+      : 0;
+    session.audioPhase += (2 * Math.PI * 440) / AUDIO_RATE;
+    pcm.writeInt16LE(sample, i * 4);
+    pcm.writeInt16LE(sample, i * 4 + 2);
+  }
+
+  const header = Buffer.alloc(17);
+  header[0] = MESSAGE_AUDIO;
+  header.writeUInt32LE(AUDIO_RATE, 1);
+  header.writeUInt32LE(2, 5);
+  header.writeUInt32LE(0, 9); // pcm16
+  header.writeUInt32LE(pcm.length, 13);
+  return Buffer.concat([header, pcm]);
+}
+
+function maskToButtons(mask) {
+  return new Set(BUTTONS.filter((_, id) => mask & (1 << id)));
+}
+
+function buttonsToMask(held) {
+  return BUTTONS.reduce(
+    (mask, button, id) => (held.has(button) ? mask | (1 << id) : mask),
+    0
+  );
+}
+
+// Input applied: frame u32, mask u16. Sent when the held buttons change,
+// with the frame they first apply on
+function reportAppliedInput(session) {
+  const mask = buttonsToMask(session.held);
+  if (mask === session.appliedMask) return;
+  session.appliedMask = mask;
+
+  const message = Buffer.alloc(7);
+  message[0] = MESSAGE_INPUT_APPLIED;
+  message.writeUInt32LE((session.seq + 1) >>> 0, 1);
+  message.writeUInt16LE(mask, 5);
+  for (const client of session.clients) send(client, 0x2, message);
+}
+
+// States are applied in arrival order once their frame comes up; late ones
+// apply on the next frame. Repeats of the same mask change nothing.
+function applyInputStates(session) {
+  const frame = session.seq + 1;
+  while (
+    session.pendingInputStates.length > 0 &&
+    session.pendingInputStates[0].frame <= frame
+  ) {
+    session.held = maskToButtons(session.pendingInputStates.shift().mask);
+  }
+}
+
+function step(session) {
+  applyInputStates(session);
+  reportAppliedInput(session);
+  const { held } = session;
+  if (held.has("LEFT")) session.x = Math.max(0, session.x - 2);
+  if (held.has("RIGHT"))
+    session.x = Math.min(WIDTH - SQUARE_SIZE, session.x + 2);
+  if (held.has("UP")) session.y = Math.max(0, session.y - 2);
+  if (held.has("DOWN"))
+    session.y = Math.min(HEIGHT - SQUARE_SIZE, session.y + 2);
+}
+
+function broadcastFrame(session) {
+  const rgba = renderFrame(session);
+  let rgb565 = null;
+  for (const client of session.clients) {
+    if (client.format === "rgb565") {
+      rgb565 ??= toRgb565(rgba);
+      send(client, 0x2, videoMessage("rgb565", session.seq, rgb565));
+    } else {
+      send(client, 0x2, videoMessage("rgba", session.seq, rgba));
+    }
+  }
+}
+
+// One snapshot per tick, sent through the normal video path with its own
+// frame counter and no audio. Works while paused, like a real core.
+function rewindStep(session) {
+  const snapshot = session.rewindBuffer.pop();
+  if (!snapshot) return;
+
+  session.x = snapshot.x;
+  session.y = snapshot.y;
+  session.seq = snapshot.seq;
+  broadcastFrame(session);
+  // Keep the oldest state so releasing resumes from it
+  if (session.rewindBuffer.length === 0) session.rewindBuffer.push(snapshot);
+}
+
+setInterval(() => {
+  for (const session of sessions.values()) {
+    if (!session.running || session.clients.size === 0) continue;
+    if (session.rewinding) {
+      rewindStep(session);
+      continue;
+    }
+    if (session.paused) continue;
+
+    // Several frames per tick when fast, none on some ticks when slow. Each
+    // frame's audio is sent, so audio arrives at speed times the real rate.
+    session.frameCarry += session.speed;
+    const frames = Math.floor(session.frameCarry);
+    session.frameCarry -= frames;
+    if (frames === 0) continue;
+
+    const audio = [];
+    for (let i = 0; i < frames; i++) {
+      step(session);
+      audio.push(audioMessage(session));
+      session.seq++;
+      recordRewindSnapshot(session);
+    }
+    broadcastFrame(session);
+    for (const client of session.clients) {
+      audio.forEach((message) => send(client, 0x2, message));
+    }
+  }
+}, FRAME_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Binary stream stand-in listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,225 @@
+import { decodeADPCM } from "./webrtc/adpcm-decoder";
+
+export type AudioCodec = "pcm16" | "adpcm" | "opus";
+
+// Codec ids used in the binary packet header
+const CODEC_IDS: Record<number, AudioCodec> = {
+  0: "pcm16",
+  1: "adpcm",
+  2: "opus",
+};
+
+// Header: sampleRate u32, channels u32, codec u32, length u32 (little-endian).
+// Older servers send a 12 byte header without the codec word (raw PCM16).
+const HEADER_SIZE = 16;
+const LEGACY_HEADER_SIZE = 12;
+
+// Opus always decodes at one of 8/12/16/24/48 kHz, whatever the source rate
+// in the packet header; the output is resampled like any other audio
+const OPUS_SAMPLE_RATE = 48000;
+// Frame sizes in microseconds by TOC config, RFC 6716 section 3.1
+const OPUS_SILK_FRAME_US = [10000, 20000, 40000, 60000];
+const OPUS_HYBRID_FRAME_US = [10000, 20000];
+const OPUS_CELT_FRAME_US = [2500, 5000, 10000, 20000];
+
+export interface AudioPacket {
+  codec: AudioCodec;
+  sampleRate: number;
+  channels: number;
+  payload: Uint8Array;
+}
+
+export interface DecodedAudio {
+  samples: Int16Array;
+  sampleRate: number;
+  channels: number;
+  codec: AudioCodec;
+}
+
+// Codecs this client can decode, in order of preference
+export function getSupportedAudioCodecs(): AudioCodec[] {
+  const codecs: AudioCodec[] = [];
+  if (typeof AudioDecoder !== "undefined") {
+    codecs.push("opus");
+  }
+  codecs.push("adpcm", "pcm16");
+  return codecs;
+}
+
+// Duration of an Opus packet in microseconds, read from its TOC byte
+function getOpusPacketDuration(packet: Uint8Array): number {
+  const toc = packet[0];
+  const config = toc >> 3;
+  const frameUs =
+    config < 12
+      ? OPUS_SILK_FRAME_US[config % 4]
+      : config < 16
+      ? OPUS_HYBRID_FRAME_US[config % 2]
+      : OPUS_CELT_FRAME_US[config % 4];
+
+  switch (toc & 0x3) {
+    case 0:
+      return frameUs;
+    case 1:
+    case 2:
+      return frameUs * 2;
+    default:
+      // Code 3: the frame count is in the next byte
+      return frameUs * ((packet[1] ?? 0) & 0x3f);
+  }
+}
+
+// `offset` skips bytes in front of the packet, e.g. a transport message type
+export function parseAudioPacket(
+  buffer: ArrayBuffer,
+  offset: number = 0
+): AudioPacket {
+  const view = new DataView(buffer, offset);
+  const sampleRate = view.getUint32(0, true);
+  const channels = view.getUint32(4, true);
+
+  if (view.byteLength >= HEADER_SIZE) {
+    const codecId = view.getUint32(8, true);
+    const length = view.getUint32(12, true);
+
+    if (codecId in CODEC_IDS && HEADER_SIZE + length === view.byteLength) {
+      return {
+        codec: CODEC_IDS[codecId],
+        sampleRate,
+        channels,
+        payload: new Uint8Array(buffer, offset + HEADER_SIZE, length),
+      };
+    }
+  }
+
+  const length = view.getUint32(8, true);
+  return {
+    codec: "pcm16",
+    sampleRate,
+    channels,
+    payload: new Uint8Array(buffer, offset + LEGACY_HEADER_SIZE, length),
+  };
+}
+
+// Decodes audio packets to interleaved PCM16. PCM16 and ADPCM decode
+// synchronously; Opus goes through WebCodecs and is delivered asynchronously,
+// so results are always reported through onDecoded.
+export class AudioPacketDecoder {
+  private opusDecoder: AudioDecoder | null = null;
+  private opusChannels: number | null = null;
+  private opusTimestamp = 0;
+  private onDecodedCallback?: (audio: DecodedAudio) => void;
+
+  onDecoded(callback: (audio: DecodedAudio) => void): void {
+    this.onDecodedCallback = callback;
+  }
+
+  decode(packet: AudioPacket): void {
+    const { codec, payload, sampleRate, channels } = packet;
+    if (payload.byteLength === 0) return;
+
+    switch (codec) {
+      case "pcm16": {
+        // Copy when unaligned, Int16Array views need an even byte offset
+        const bytes = payload.byteOffset % 2 === 0 ? payload : payload.slice();
+        this.onDecodedCallback?.({
+          samples: new Int16Array(
+            bytes.buffer,
+            bytes.byteOffset,
+            bytes.byteLength >> 1
+          ),
+          sampleRate,
+          channels,
+          codec,
+        });
+        break;
+      }
+
+      case "adpcm":
+        this.onDecodedCallback?.({
+          samples: decodeADPCM(payload, channels),
+          sampleRate,
+          channels,
+          codec,
+        });
+        break;
+
+      case "opus":
+        this.decodeOpus(payload, channels);
+        break;
+    }
+  }
+
+  close(): void {
+    if (this.opusDecoder && this.opusDecoder.state !== "closed") {
+      this.opusDecoder.close();
+    }
+    this.opusDecoder = null;
+    this.opusChannels = null;
+    this.opusTimestamp = 0;
+  }
+
+  private decodeOpus(payload: Uint8Array, channels: number): void {
+    if (typeof AudioDecoder === "undefined") {
+      console.warn("[Audio] Opus packet received but WebCodecs is missing");
+      return;
+    }
+
+    if (
+      !this.opusDecoder ||
+      this.opusDecoder.state === "closed" ||
+      this.opusChannels !== channels
+    ) {
+      this.close();
+      this.opusDecoder = new AudioDecoder({
+        output: (data) => this.handleOpusOutput(data),
+        error: (error) => {
+          console.error("[Audio] Opus decoder error:", error);
+          this.close();
+        },
+      });
+      this.opusDecoder.configure({
+        codec: "opus",
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfChannels: channels,
+      });
+      this.opusChannels = channels;
+    }
+
+    const chunk = new EncodedAudioChunk({
+      type: "key",
+      timestamp: this.opusTimestamp,
+      data: payload,
+    });
+    // In microseconds. Packets may hold 2.5 to 120ms, so each one advances
+    // the timeline by its own duration.
+    this.opusTimestamp += getOpusPacketDuration(payload);
+    this.opusDecoder.decode(chunk);
+  }
+
+  private handleOpusOutput(data: AudioData): void {
+    const frames = data.numberOfFrames;
+    const channels = data.numberOfChannels;
+    const samples = new Int16Array(frames * channels);
+    const plane = new Float32Array(frames);
+
+    // Every implementation must support conversion to f32-planar
+    for (let ch = 0; ch < channels; ch++) {
+      data.copyTo(plane, { planeIndex: ch, format: "f32-planar" });
+      for (let i = 0; i < frames; i++) {
+        const value = Math.max(-1, Math.min(1, plane[i]));
+        samples[i * channels + ch] = value < 0 ? value * 32768 : value * 32767;
+      }
+    }
+
+    const sampleRate = data.sampleRate;
+    data.close();
+
+    this.onDecodedCallback?.({
+      samples,
+      sampleRate,
+      channels,
+      codec: "opus",
+    });
+  }
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_AUDIO_SETTINGS, type AudioSettings } from "@/lib/audio-mixer";
+import { loadUserSetting, saveUserSetting } from "./user-settings";
+
+const AUDIO_SETTINGS_STORAGE_KEY = "cloudgaming_audio_settings";
+
+export function loadAudioSettings(): AudioSettings {
+  return loadUserSetting(AUDIO_SETTINGS_STORAGE_KEY, DEFAULT_AUDIO_SETTINGS);
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  saveUserSetting(AUDIO_SETTINGS_STORAGE_KEY, settings);
+}
@@ -0,0 +1,296 @@
+/**
+ * Cheat codes
+ * Client-side validation and decoding of GBA cheat devices' codes, so a
+ * malformed code is reported when it is entered rather than silently ignored
+ * by the emulator. Supported formats:
+ *
+ *   gameshark-v1  GameShark / Action Replay v1-v2, "XXXXXXXX YYYYYYYY",
+ *                 TEA-encrypted with the v1 seeds
+ *   gameshark-v3  GameShark SP / Action Replay v3, "XXXXXXXX YYYYYYYY",
+ *                 TEA-encrypted with the v3 seeds
+ *   codebreaker   CodeBreaker, "XXXXXXXX YYYY", unencrypted
+ *
+ * Codes are decrypted here and sent to the session as raw lines (see
+ * toSessionCheat), so the server never has to guess the format. Codes that
+ * change the encryption key (DEADFACE) and encrypted CodeBreaker codes are
+ * refused, the key schedule isn't implemented.
+ */
+
+export type CheatFormat = "gameshark-v1" | "gameshark-v3" | "codebreaker";
+
+export const CHEAT_FORMATS: CheatFormat[] = [
+  "gameshark-v1",
+  "gameshark-v3",
+  "codebreaker",
+];
+
+export const CHEAT_FORMAT_LABELS: Record<CheatFormat, string> = {
+  "gameshark-v1": "GameShark v1 / Action Replay v1-v2",
+  "gameshark-v3": "GameShark v3 / Action Replay v3",
+  codebreaker: "CodeBreaker",
+};
+
+// [op1, op2], decrypted
+export type CheatLine = [op1: number, op2: number];
+
+export interface ParsedCheat {
+  format: CheatFormat;
+  lines: CheatLine[];
+}
+
+// What the session receives for an active cheat
+export interface SessionCheat {
+  id: string;
+  format: CheatFormat;
+  // Decrypted lines, "XXXXXXXX YYYYYYYY" (or "XXXXXXXX YYYY" for CodeBreaker)
+  lines: string[];
+}
+
+export class CheatCodeError extends Error {
+  // 1-based line of the code the error is about, if any
+  line?: number;
+
+  constructor(message: string, line?: number) {
+    super(line !== undefined ? `Ligne ${line} : ${message}` : message);
+    this.name = "CheatCodeError";
+    this.line = line;
+  }
+}
+
+const GAMESHARK_V1_SEEDS = [0x09f4fbbd, 0x9681884a, 0x352027e9, 0xf3dee5a7];
+const GAMESHARK_V3_SEEDS = [0x7aa9648f, 0x7fae6994, 0xc0efaad5, 0x42712c57];
+const TEA_DELTA = 0x9e3779b9;
+const TEA_ROUNDS = 32;
+const RESEED_MARKER = 0xdeadface;
+
+const GAMESHARK_LINE = /^([0-9A-F]{8})\s*([0-9A-F]{8})$/;
+const CODEBREAKER_LINE = /^([0-9A-F]{8})\s*([0-9A-F]{4})$/;
+
+// GameShark v1 code types (top nibble of the decrypted op1)
+const GS1_GROUP_WRITE = 0x3;
+const GS1_IF_EQUAL = 0xd;
+const GS1_IF_EQUAL_RANGE = 0xe;
+const GS1_TYPES = new Set([0x0, 0x1, 0x2, 0x3, 0x6, 0x8, 0xd, 0xe, 0xf]);
+
+// GameShark v3 "special" codes have op1 = 0, the type is op2's top 7 bits.
+// Button, patch and fill codes carry their parameters on the next line.
+const GS3_SPECIAL_MASK = 0xfe000000;
+const GS3_SPECIALS = new Set([0x00000000, 0x08000000, 0x40000000, 0x60000000]);
+const GS3_SPECIALS_WITH_PARAMETERS = new Set([
+  0x10000000, 0x12000000, 0x14000000, 0x18000000, 0x1a000000, 0x1c000000,
+  0x1e000000, 0x80000000, 0x82000000, 0x84000000,
+]);
+const GS3_CONDITION_SHIFT = 27;
+
+// CodeBreaker code types (top nibble of op1)
+const CB_FILL = 0x4;
+const CB_SUPER = 0x5;
+const CB_ENCRYPTION = 0x9;
+const CB_CONDITIONS = new Set([0x7, 0xa, 0xb, 0xc, 0xd, 0xf]);
+const CB_BYTES_PER_LINE = 6;
+
+function teaDecrypt(op1: number, op2: number, seeds: number[]): CheatLine {
+  let sum = (TEA_DELTA * TEA_ROUNDS) >>> 0;
+  for (let i = 0; i < TEA_ROUNDS; i++) {
+    op2 =
+      (op2 -
+        ((((op1 << 4) + seeds[2]) ^ (op1 + sum) ^ ((op1 >>> 5) + seeds[3])) >>>
+          0)) >>>
+      0;
+    op1 =
+      (op1 -
+        ((((op2 << 4) + seeds[0]) ^ (op2 + sum) ^ ((op2 >>> 5) + seeds[1])) >>>
+          0)) >>>
+      0;
+    sum = (sum - TEA_DELTA) >>> 0;
+  }
+  return [op1, op2];
+}
+
+// Splits the code into [op1, op2] pairs, checking each line's shape
+function readLines(code: string, format: CheatFormat): CheatLine[] {
+  const pattern = format === "codebreaker" ? CODEBREAKER_LINE : GAMESHARK_LINE;
+  const other = format === "codebreaker" ? GAMESHARK_LINE : CODEBREAKER_LINE;
+  const lines = code
+    .split(/\r?\n/)
+    .map((line) => line.trim().toUpperCase())
+    .filter((line) => line.length > 0);
+
+  if (lines.length === 0) {
+    throw new CheatCodeError("Le code est vide");
+  }
+
+  return lines.map((line, index) => {
+    const match = line.match(pattern);
+    if (match) {
+      return [parseInt(match[1], 16), parseInt(match[2], 16)];
+    }
+    if (other.test(line)) {
+      throw new CheatCodeError(
+        format === "codebreaker"
+          ? "ressemble à un code GameShark / Action Replay"
+          : "ressemble à un code CodeBreaker",
+        index + 1
+      );
+    }
+    throw new CheatCodeError(
+      format === "codebreaker"
+        ? "format attendu XXXXXXXX YYYY (hexadécimal)"
+        : "format attendu XXXXXXXX YYYYYYYY (hexadécimal)",
+      index + 1
+    );
+  });
+}
+
+// Checks that count lines follow the code on line start (1-based), for codes
+// that apply to or read the next line(s)
+function requireLines(
+  lines: CheatLine[],
+  start: number,
+  count: number,
+  what: string
+): void {
+  if (start + count > lines.length) {
+    throw new CheatCodeError(`${what} incomplet`, start);
+  }
+}
+
+function parseGameSharkV1(raw: CheatLine[]): CheatLine[] {
+  const lines = raw.map(([op1, op2]) =>
+    teaDecrypt(op1, op2, GAMESHARK_V1_SEEDS)
+  );
+
+  for (let i = 0; i < lines.length; i++) {
+    const [op1] = lines[i];
+    const type = op1 >>> 28;
+
+    if (op1 === RESEED_MARKER) {
+      throw new CheatCodeError(
+        "les codes qui changent la clé (DEADFACE) ne sont pas pris en charge",
+        i + 1
+      );
+    }
+    if (!GS1_TYPES.has(type)) {
+      throw new CheatCodeError(
+        `type de code inconnu (${type
+          .toString(16)
+          .toUpperCase()}), vérifiez le format choisi`,
+        i + 1
+      );
+    }
+
+    if (type === GS1_GROUP_WRITE) {
+      // The addresses follow, two per line
+      const addressLines = Math.ceil((op1 & 0xffff) / 2);
+      requireLines(lines, i + 1, addressLines, "Code d'écriture groupée");
+      i += addressLines;
+    } else if (type === GS1_IF_EQUAL || type === GS1_IF_EQUAL_RANGE) {
+      requireLines(lines, i + 1, 1, "Code conditionnel");
+    }
+  }
+  return lines;
+}
+
+function parseGameSharkV3(raw: CheatLine[]): CheatLine[] {
+  const lines = raw.map(([op1, op2]) =>
+    teaDecrypt(op1, op2, GAMESHARK_V3_SEEDS)
+  );
+
+  for (let i = 0; i < lines.length; i++) {
+    const [op1, op2] = lines[i];
+
+    if (op1 === RESEED_MARKER) {
+      throw new CheatCodeError(
+        "les codes qui changent la clé (DEADFACE) ne sont pas pris en charge",
+        i + 1
+      );
+    }
+
+    if (op1 === 0) {
+      const special = (op2 & GS3_SPECIAL_MASK) >>> 0;
+      if (GS3_SPECIALS_WITH_PARAMETERS.has(special)) {
+        requireLines(lines, i + 1, 1, "Code spécial");
+        i += 1;
+      } else if (!GS3_SPECIALS.has(special)) {
+        throw new CheatCodeError(
+          "code spécial inconnu, vérifiez le format choisi",
+          i + 1
+        );
+      }
+    } else if ((op1 >>> GS3_CONDITION_SHIFT) & 0x7) {
+      requireLines(lines, i + 1, 1, "Code conditionnel");
+    }
+  }
+  return lines;
+}
+
+function parseCodeBreaker(lines: CheatLine[]): CheatLine[] {
+  for (let i = 0; i < lines.length; i++) {
+    const [op1, op2] = lines[i];
+    const type = op1 >>> 28;
+
+    if (type === CB_ENCRYPTION) {
+      throw new CheatCodeError(
+        "les codes CodeBreaker chiffrés ne sont pas pris en charge",
+        i + 1
+      );
+    }
+
+    if (type === CB_FILL) {
+      requireLines(lines, i + 1, 1, "Code de remplissage");
+      i += 1;
+    } else if (type === CB_SUPER) {
+      // op2 bytes follow, six per line
+      const dataLines = Math.ceil(op2 / CB_BYTES_PER_LINE);
+      requireLines(lines, i + 1, dataLines, "Super code");
+      i += dataLines;
+    } else if (CB_CONDITIONS.has(type)) {
+      requireLines(lines, i + 1, 1, "Code conditionnel");
+    }
+  }
+  return lines;
+}
+
+// Throws a CheatCodeError describing the first problem found
+export function parseCheatCode(code: string, format: CheatFormat): ParsedCheat {
+  const raw = readLines(code, format);
+
+  switch (format) {
+    case "gameshark-v1":
+      return { format, lines: parseGameSharkV1(raw) };
+    case "gameshark-v3":
+      return { format, lines: parseGameSharkV3(raw) };
+    case "codebreaker":
+      return { format, lines: parseCodeBreaker(raw) };
+  }
+}
+
+// One "XXXXXXXX YYYYYYYY" line per code line, as stored
+export function normalizeCheatCode(code: string): string {
+  return code
+    .split(/\r?\n/)
+    .map((line) => line.trim().toUpperCase().replace(/\s+/g, ""))
+    .filter((line) => line.length > 0)
+    .map((line) => `${line.slice(0, 8)} ${line.slice(8)}`)
+    .join("\n");
+}
+
+function toHex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, "0");
+}
+
+export function toSessionCheat(
+  id: string,
+  code: string,
+  format: CheatFormat
+): SessionCheat {
+  const { lines } = parseCheatCode(code, format);
+  const valueDigits = format === "codebreaker" ? 4 : 8;
+  return {
+    id,
+    format,
+    lines: lines.map(
+      ([op1, op2]) => `${toHex(op1, 8)} ${toHex(op2, valueDigits)}`
+    ),
+  };
+}
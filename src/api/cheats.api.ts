@@ -0,0 +1,139 @@
+import { authClient } from "../lib/auth-client";
+import {
+  type CheatFormat,
+  normalizeCheatCode,
+  parseCheatCode,
+} from "./cheat-codes";
+
+const getApiBase = () => {
+  if (import.meta.env.VITE_SERVER_URL) {
+    return import.meta.env.VITE_SERVER_URL + "/api";
+  }
+  const hostname = window.location.hostname;
+  return `http://${hostname}:3000/api`;
+};
+
+export interface Cheat {
+  id: string;
+  romId: string;
+  name: string;
+  format: CheatFormat;
+  // Normalized, one "XXXXXXXX YYYYYYYY" line per code line
+  code: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CheatChanges = Partial<
+  Pick<Cheat, "name" | "format" | "code" | "enabled">
+>;
+
+/**
+ * Get userId from auth client
+ */
+function getUserId(): string {
+  const user = authClient.getUser();
+  if (!user) {
+    console.error("[Cheats API] User not authenticated:", { user });
+    throw new Error("User not authenticated. Please log in again.");
+  }
+  return user.id;
+}
+
+/**
+ * List the current user's cheats for a ROM
+ */
+export async function listCheats(romId: string): Promise<Cheat[]> {
+  const userId = getUserId();
+  const url = new URL(`${getApiBase()}/cheats`);
+  url.searchParams.set("userId", userId);
+  url.searchParams.set("romId", romId);
+
+  const response = await fetch(url.toString());
+  if (!response.ok) {
+    throw new Error(`Failed to list cheats: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Add a cheat. The code is validated first and throws a CheatCodeError if
+ * it is malformed.
+ */
+export async function createCheat(params: {
+  romId: string;
+  name: string;
+  format: CheatFormat;
+  code: string;
+  enabled?: boolean;
+}): Promise<Cheat> {
+  parseCheatCode(params.code, params.format);
+  const userId = getUserId();
+
+  const response = await fetch(`${getApiBase()}/cheats`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      userId,
+      romId: params.romId,
+      name: params.name,
+      format: params.format,
+      code: normalizeCheatCode(params.code),
+      enabled: params.enabled ?? true,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create cheat: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Rename, enable/disable or edit a cheat. A new code or format is validated
+ * against the cheat's current one.
+ */
+export async function updateCheat(
+  cheat: Cheat,
+  changes: CheatChanges
+): Promise<Cheat> {
+  const body: CheatChanges = { ...changes };
+  if (changes.code !== undefined || changes.format !== undefined) {
+    const code = changes.code ?? cheat.code;
+    parseCheatCode(code, changes.format ?? cheat.format);
+    body.code = normalizeCheatCode(code);
+  }
+  const userId = getUserId();
+
+  const response = await fetch(`${getApiBase()}/cheats/${cheat.id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, ...body }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update cheat: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Delete a cheat by ID
+ */
+export async function deleteCheat(id: string): Promise<void> {
+  const userId = getUserId();
+  const url = new URL(`${getApiBase()}/cheats/${id}`);
+  url.searchParams.set("userId", userId);
+
+  const response = await fetch(url.toString(), {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete cheat: ${response.statusText}`);
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  GBA_FRAME_INTERVAL_MS,
+  type InputButton,
+  type InputSender,
+  type InputState,
+} from "./play.api";
+import { loadUserSetting, saveUserSetting } from "./user-settings";
+
+const INPUT_PROFILE_STORAGE_KEY = "cloudgaming_input_profile";
+
+export const TURBO_MIN_RATE = 2;
+export const TURBO_MAX_RATE = 30;
+export const TURBO_DEFAULT_RATE = 10;
+
+export type MacroTiming = "frames" | "ms";
+
+export interface MacroStep {
+  button: InputButton;
+  state: InputState;
+  // Wait before this step, in the macro's timing unit
+  delay: number;
+}
+
+export interface MacroBinding {
+  key?: string;
+  gamepadButton?: number;
+  // Shows a button for the macro on the touch controls
+  touch?: boolean;
+}
+
+export interface InputMacro {
+  id: string;
+  name: string;
+  timing: MacroTiming;
+  steps: MacroStep[];
+  // Repeat until triggered again, e.g. for grinding
+  loop: boolean;
+  binding: MacroBinding;
+}
+
+// Turbo and macros are saved per ROM
+export interface RomInputProfile {
+  // Presses per second while held, for buttons with turbo enabled
+  turbo: Partial<Record<InputButton, number>>;
+  macros: InputMacro[];
+}
+
+export const EMPTY_INPUT_PROFILE: RomInputProfile = { turbo: {}, macros: [] };
+
+export function loadRomInputProfile(romId: string): RomInputProfile {
+  return loadUserSetting(INPUT_PROFILE_STORAGE_KEY, EMPTY_INPUT_PROFILE, romId);
+}
+
+export function saveRomInputProfile(
+  romId: string,
+  profile: RomInputProfile
+): void {
+  saveUserSetting(INPUT_PROFILE_STORAGE_KEY, profile, romId);
+}
+
+export function createMacro(name: string): InputMacro {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    timing: "frames",
+    steps: [
+      { button: "A", state: "down", delay: 0 },
+      { button: "A", state: "up", delay: 4 },
+    ],
+    loop: false,
+    binding: {},
+  };
+}
+
+export function macroDelayMs(macro: InputMacro, step: MacroStep): number {
+  return macro.timing === "frames"
+    ? step.delay * GBA_FRAME_INTERVAL_MS
+    : step.delay;
+}
+
+interface RunningMacro {
+  timer: ReturnType<typeof setTimeout> | null;
+  held: Set<InputButton>;
+}
+
+// Applies turbo to button input and plays macros back, all through the same
+// sender as regular input
+export class InputAutomation {
+  private profile: RomInputProfile = { turbo: {}, macros: [] };
+  private inputSender: InputSender | null = null;
+  private turboTimers = new Map<InputButton, ReturnType<typeof setInterval>>();
+  private running = new Map<string, RunningMacro>();
+  private onRunningChangeCallback?: (macroIds: string[]) => void;
+
+  setInputSender(sender: InputSender | null): void {
+    this.inputSender = sender;
+  }
+
+  setProfile(profile: RomInputProfile): void {
+    this.stopAll();
+    this.profile = profile;
+  }
+
+  onRunningChange(callback: (macroIds: string[]) => void): void {
+    this.onRunningChangeCallback = callback;
+  }
+
+  handleInput(button: InputButton, state: InputState): void {
+    const rate = this.profile.turbo[button];
+    if (!rate) {
+      this.inputSender?.(button, state);
+      return;
+    }
+
+    if (state === "down") {
+      this.startTurbo(button, rate);
+    } else {
+      this.stopTurbo(button);
+    }
+  }
+
+  // Starts the macro, or stops it if it is already running
+  triggerMacro(id: string): void {
+    if (this.running.has(id)) {
+      this.stopMacro(id);
+      return;
+    }
+
+    const macro = this.profile.macros.find((m) => m.id === id);
+    if (!macro || macro.steps.length === 0) return;
+
+    this.running.set(id, { timer: null, held: new Set() });
+    this.notifyRunning();
+    this.runStep(macro, 0);
+  }
+
+  stopMacro(id: string): void {
+    const run = this.running.get(id);
+    if (!run) return;
+
+    if (run.timer) clearTimeout(run.timer);
+    this.running.delete(id);
+    run.held.forEach((button) => this.inputSender?.(button, "up"));
+    this.notifyRunning();
+  }
+
+  stopAll(): void {
+    Array.from(this.turboTimers.keys()).forEach((button) =>
+      this.stopTurbo(button)
+    );
+    Array.from(this.running.keys()).forEach((id) => this.stopMacro(id));
+  }
+
+  private notifyRunning(): void {
+    this.onRunningChangeCallback?.(Array.from(this.running.keys()));
+  }
+
+  private runStep(macro: InputMacro, index: number): void {
+    const run = this.running.get(macro.id);
+    if (!run) return;
+
+    if (index >= macro.steps.length) {
+      if (macro.loop) {
+        this.runStep(macro, 0);
+      } else {
+        this.stopMacro(macro.id);
+      }
+      return;
+    }
+
+    const step = macro.steps[index];
+    run.timer = setTimeout(() => {
+      run.timer = null;
+      if (!this.running.has(macro.id)) return;
+
+      if (step.state === "down") {
+        run.held.add(step.button);
+      } else {
+        run.held.delete(step.button);
+      }
+      this.inputSender?.(step.button, step.state);
+      this.runStep(macro, index + 1);
+    }, macroDelayMs(macro, step));
+  }
+
+  // Alternates down/up at the configured rate, starting with a press
+  private startTurbo(button: InputButton, rate: number): void {
+    if (this.turboTimers.has(button)) return;
+
+    let pressed = true;
+    this.inputSender?.(button, "down");
+    const timer = setInterval(() => {
+      pressed = !pressed;
+      this.inputSender?.(button, pressed ? "down" : "up");
+    }, 1000 / (rate * 2));
+    this.turboTimers.set(button, timer);
+  }
+
+  private stopTurbo(button: InputButton): void {
+    const timer = this.turboTimers.get(button);
+    if (timer) {
+      clearInterval(timer);
+      this.turboTimers.delete(button);
+    }
+    this.inputSender?.(button, "up");
+  }
+}
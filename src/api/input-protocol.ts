@@ -0,0 +1,175 @@
+import type { InputButton, InputState } from "./play.api";
+
+// Binary input messages shared by the WebRTC data channel and the binary
+// stream transport (8-10 bytes vs ~100 bytes JSON). All integers are
+// little-endian.
+//
+// Input event (8 bytes):
+//   Byte 0: Button ID
+//   Byte 1: State (0=UP, 1=DOWN)
+//   Bytes 2-3: Sequence number (u16, wraps)
+//   Bytes 4-7: Client timestamp in ms (u32, wraps)
+//
+// Held buttons (10 bytes), sent periodically so the server can repair lost
+// events:
+//   Byte 0: HELD_BUTTONS_MARKER
+//   Byte 1: Reserved (0)
+//   Bytes 2-3: Sequence number of the last event sent
+//   Bytes 4-7: Client timestamp in ms
+//   Bytes 8-9: Held button mask, bit N set for button ID N
+//
+// Input state (8 bytes), the "state" encoding: the whole pad on every change
+// and on a heartbeat instead of edge events, so duplicates are harmless:
+//   Byte 0: INPUT_STATE_MARKER
+//   Byte 1: Reserved (0)
+//   Bytes 2-3: Held button mask
+//   Bytes 4-7: Client frame number (u32), see InputStateFrame
+export const INPUT_BUTTON_IDS: Record<InputButton, number> = {
+  A: 0,
+  B: 1,
+  SELECT: 2,
+  START: 3,
+  UP: 4,
+  DOWN: 5,
+  LEFT: 6,
+  RIGHT: 7,
+  L: 8,
+  R: 9,
+};
+
+export const HELD_BUTTONS_MARKER = 0xff;
+export const INPUT_STATE_MARKER = 0xfe;
+
+const INPUT_EVENT_SIZE = 8;
+const HELD_BUTTONS_SIZE = 10;
+const INPUT_STATE_SIZE = 8;
+
+// "events": edge events plus periodic held-buttons snapshots.
+// "state": full state frames. Negotiated when the session is created.
+export type InputEncoding = "events" | "state";
+
+export interface InputEvent {
+  button: InputButton;
+  state: InputState;
+  seq: number;
+  timestamp: number;
+}
+
+export interface HeldButtons {
+  mask: number;
+  // Sequence number of the last event the mask reflects
+  seq: number;
+  timestamp: number;
+}
+
+export interface InputStateFrame {
+  mask: number;
+  // Counts GBA frames (59.73 Hz) since input started. The server maps the
+  // first one it sees to its current emulator frame and applies later ones
+  // at the same offsets.
+  frame: number;
+}
+
+// Reported by the server: from emulator frame `frame` on (the video frames'
+// seq counter), exactly the buttons in mask are held
+export interface AppliedInput {
+  mask: number;
+  frame: number;
+}
+
+// In order of preference
+export function getSupportedInputEncodings(): InputEncoding[] {
+  return ["state", "events"];
+}
+
+// Milliseconds since page load, truncated to the u32 wire field
+export function inputTimestamp(): number {
+  return Math.round(performance.now()) >>> 0;
+}
+
+export function buttonsToMask(buttons: Iterable<InputButton>): number {
+  let mask = 0;
+  for (const button of buttons) {
+    const buttonId = INPUT_BUTTON_IDS[button];
+    if (buttonId !== undefined) mask |= 1 << buttonId;
+  }
+  return mask;
+}
+
+// Returns null for buttons without a binary id
+export function encodeInput(event: InputEvent): Uint8Array<ArrayBuffer> | null {
+  const buttonId = INPUT_BUTTON_IDS[event.button];
+  if (buttonId === undefined) return null;
+
+  const buffer = new Uint8Array(INPUT_EVENT_SIZE);
+  const view = new DataView(buffer.buffer);
+  view.setUint8(0, buttonId);
+  view.setUint8(1, event.state === "down" ? 1 : 0);
+  view.setUint16(2, event.seq, true);
+  view.setUint32(4, event.timestamp, true);
+  return buffer;
+}
+
+export function encodeHeldButtons(held: HeldButtons): Uint8Array<ArrayBuffer> {
+  const buffer = new Uint8Array(HELD_BUTTONS_SIZE);
+  const view = new DataView(buffer.buffer);
+  view.setUint8(0, HELD_BUTTONS_MARKER);
+  view.setUint16(2, held.seq, true);
+  view.setUint32(4, held.timestamp, true);
+  view.setUint16(8, held.mask, true);
+  return buffer;
+}
+
+export function encodeInputState(
+  state: InputStateFrame
+): Uint8Array<ArrayBuffer> {
+  const buffer = new Uint8Array(INPUT_STATE_SIZE);
+  const view = new DataView(buffer.buffer);
+  view.setUint8(0, INPUT_STATE_MARKER);
+  view.setUint16(2, state.mask, true);
+  view.setUint32(4, state.frame >>> 0, true);
+  return buffer;
+}
+
+// Stamps input events with a sequence number and timestamp, and keeps track
+// of which buttons are held as a result
+export class InputSequencer {
+  private seq = 0;
+  private held = new Set<InputButton>();
+
+  next(button: InputButton, state: InputState): InputEvent {
+    if (state === "down") {
+      this.held.add(button);
+    } else {
+      this.held.delete(button);
+    }
+
+    this.seq = (this.seq + 1) & 0xffff;
+    return { button, state, seq: this.seq, timestamp: inputTimestamp() };
+  }
+
+  heldButtons(): HeldButtons {
+    return {
+      mask: buttonsToMask(this.held),
+      seq: this.seq,
+      timestamp: inputTimestamp(),
+    };
+  }
+
+  // "up" events for every held button
+  releaseAll(): InputEvent[] {
+    return Array.from(this.held).map((button) => this.next(button, "up"));
+  }
+
+  // Events that leave exactly the buttons in the mask held
+  eventsTo(mask: number): InputEvent[] {
+    const events: InputEvent[] = [];
+    (Object.keys(INPUT_BUTTON_IDS) as InputButton[]).forEach((button) => {
+      const down = (mask & (1 << INPUT_BUTTON_IDS[button])) !== 0;
+      if (down !== this.held.has(button)) {
+        events.push(this.next(button, down ? "down" : "up"));
+      }
+    });
+    return events;
+  }
+}
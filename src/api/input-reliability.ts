@@ -0,0 +1,207 @@
+/**
+ * Input Reliability
+ * Sits in front of the stream transport's input path. With the "events"
+ * encoding every edge gets a sequence number and client timestamp, and the
+ * held buttons are re-sent periodically so the server can repair lost up/down
+ * events. With the "state" encoding the whole pad is sent with a frame number
+ * on every change and on the same heartbeat. Either way, everything held is
+ * released when the page loses focus or the connection drops, so a missed
+ * "up" can't leave a direction stuck.
+ *
+ * Movie recording listens to the held mask through onMaskChange, and replay
+ * drives the pad through applyMask.
+ */
+
+import {
+  GBA_FRAME_INTERVAL_MS,
+  type InputButton,
+  type InputState,
+} from "./play.api";
+import { InputSequencer, type InputEncoding } from "./input-protocol";
+import type { StreamTransport } from "./transport";
+
+const HEARTBEAT_INTERVAL_MS = 250;
+
+export type InputSink = Pick<
+  StreamTransport,
+  "sendInput" | "sendHeldButtons" | "sendInputState"
+>;
+
+export class InputReliability {
+  private sequencer = new InputSequencer();
+  private sink: InputSink | null = null;
+  private encoding: InputEncoding = "events";
+  // Frame clock for the "state" encoding, follows pause and speed changes
+  private clockFrame = 0;
+  private clockAt = 0;
+  private clockRate = 1;
+  private lastMask = 0;
+  private lastFrame = 0;
+  private notifiedMask = 0;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private blurHandler: (() => void) | null = null;
+  private visibilityHandler: (() => void) | null = null;
+  private onMaskChangeCallback?: (mask: number) => void;
+  private onReleaseCallback?: () => void;
+
+  // Where events go; null while the transport is being swapped
+  setSink(sink: InputSink | null): void {
+    this.sink = sink;
+  }
+
+  // Set from the session's negotiated encoding
+  setEncoding(encoding: InputEncoding): void {
+    this.encoding = encoding;
+  }
+
+  get heldMask(): number {
+    return this.notifiedMask;
+  }
+
+  // Called with the held button mask whenever it changes
+  onMaskChange(callback: (mask: number) => void): void {
+    this.onMaskChangeCallback = callback;
+  }
+
+  // Called before everything is released (focus lost, disconnect, session
+  // end), so input generated outside the sequencer can stop first
+  onRelease(callback: () => void): void {
+    this.onReleaseCallback = callback;
+  }
+
+  // Emulated frames since start(), the clock used for "state" frame numbers
+  currentFrame(): number {
+    return Math.floor(this.clockPosition());
+  }
+
+  // Emulation speed multiplier, 0 while paused, so state frames keep
+  // mapping to the emulator frame they are meant for
+  setClockRate(rate: number): void {
+    this.clockFrame = this.clockPosition();
+    this.clockAt = performance.now();
+    this.clockRate = rate;
+  }
+
+  getClockRate(): number {
+    return this.clockRate;
+  }
+
+  send(button: InputButton, state: InputState): void {
+    const event = this.sequencer.next(button, state);
+
+    if (this.encoding === "state") {
+      this.sendStateIfChanged();
+    } else {
+      this.sink?.sendInput(event);
+    }
+    this.notifyMask();
+  }
+
+  releaseAll(): void {
+    this.onReleaseCallback?.();
+    const events = this.sequencer.releaseAll();
+
+    if (this.encoding === "state") {
+      this.sendStateIfChanged();
+    } else {
+      events.forEach((event) => this.sink?.sendInput(event));
+    }
+    this.notifyMask();
+  }
+
+  // Sets the whole pad at once. With the "state" encoding, frame pins the
+  // change to a frame of currentFrame's clock, which may be in the future.
+  applyMask(mask: number, frame?: number): void {
+    const events = this.sequencer.eventsTo(mask);
+
+    if (this.encoding === "state") {
+      this.sendState(frame);
+    } else {
+      events.forEach((event) => this.sink?.sendInput(event));
+    }
+    this.notifyMask();
+  }
+
+  start(): void {
+    this.stop();
+    this.clockFrame = 0;
+    this.clockAt = performance.now();
+    this.clockRate = 1;
+    this.lastFrame = 0;
+
+    this.heartbeatTimer = setInterval(
+      () => this.sendHeartbeat(),
+      HEARTBEAT_INTERVAL_MS
+    );
+
+    // Key-up events never arrive once the window loses focus
+    this.blurHandler = () => this.releaseAll();
+    this.visibilityHandler = () => {
+      if (document.visibilityState === "hidden") this.releaseAll();
+    };
+    window.addEventListener("blur", this.blurHandler);
+    document.addEventListener("visibilitychange", this.visibilityHandler);
+  }
+
+  stop(): void {
+    this.releaseAll();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.blurHandler) {
+      window.removeEventListener("blur", this.blurHandler);
+      this.blurHandler = null;
+    }
+    if (this.visibilityHandler) {
+      document.removeEventListener("visibilitychange", this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+  }
+
+  // Sends the held buttons right away, e.g. once the connection is back:
+  // edges released while it was down never reached the server
+  resync(): void {
+    if (this.heartbeatTimer) this.sendHeartbeat();
+  }
+
+  private sendHeartbeat(): void {
+    if (this.encoding === "state") {
+      this.sendState();
+    } else {
+      this.sink?.sendHeldButtons(this.sequencer.heldButtons());
+    }
+  }
+
+  private sendStateIfChanged(): void {
+    if (this.sequencer.heldButtons().mask !== this.lastMask) {
+      this.sendState();
+    }
+  }
+
+  // Frames never go backwards, so a heartbeat can't land before a change
+  // that was pinned to a later frame
+  private sendState(frame = this.currentFrame()): void {
+    const { mask } = this.sequencer.heldButtons();
+    this.lastMask = mask;
+    this.lastFrame = Math.max(this.lastFrame, frame);
+    this.sink?.sendInputState({ mask, frame: this.lastFrame });
+  }
+
+  private clockPosition(): number {
+    return (
+      this.clockFrame +
+      ((performance.now() - this.clockAt) * this.clockRate) /
+        GBA_FRAME_INTERVAL_MS
+    );
+  }
+
+  private notifyMask(): void {
+    const { mask } = this.sequencer.heldButtons();
+    if (mask !== this.notifiedMask) {
+      this.notifiedMask = mask;
+      this.onMaskChangeCallback?.(mask);
+    }
+  }
+}
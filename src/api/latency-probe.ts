@@ -0,0 +1,172 @@
+export type LatencyMode = "websocket" | "webrtc";
+
+export interface LatencySummary {
+  mode: LatencyMode;
+  count: number;
+  timeouts: number;
+  minMs: number;
+  maxMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  // Sample counts per HISTOGRAM_BUCKET_MS-wide bucket, last one is overflow
+  histogram: number[];
+}
+
+export const HISTOGRAM_BUCKET_MS = 10;
+export const HISTOGRAM_BUCKETS = 30;
+
+// An input that produces no visible change within this window is dropped
+const PROBE_TIMEOUT_MS = 1000;
+
+// Mean absolute per-channel difference that counts as "the screen changed"
+const CHANGE_THRESHOLD = 2;
+
+// Pixels are sampled on a coarse grid to keep readbacks cheap
+const SAMPLE_STEP = 4;
+
+interface PendingProbe {
+  mode: LatencyMode;
+  sentAt: number;
+  baseline: Uint8ClampedArray;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1
+  );
+  return sorted[Math.max(0, index)];
+}
+
+// Measures input-to-photon latency: each "down" input arms a probe with a
+// snapshot of the canvas, and the first presented frame that differs from it
+// closes the probe. Results are only meaningful on a screen that reacts to
+// the input and is otherwise static (a menu cursor, a paused test pattern).
+// Only the 2D canvas is sampled, so frames presented by the WebGL overlay or
+// the video worker can't be measured.
+export class LatencyProbe {
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private enabled = false;
+  private pending: PendingProbe | null = null;
+  private samples: Record<LatencyMode, number[]> = {
+    websocket: [],
+    webrtc: [],
+  };
+  private timeouts: Record<LatencyMode, number> = { websocket: 0, webrtc: 0 };
+  private onUpdateCallback?: () => void;
+
+  attach(canvas: HTMLCanvasElement): void {
+    this.canvas = canvas;
+    this.context = canvas.getContext("2d");
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.pending = null;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  armInput(mode: LatencyMode): void {
+    if (!this.enabled || this.pending) return;
+
+    const baseline = this.readSignature();
+    if (!baseline) return;
+
+    this.pending = { mode, sentAt: performance.now(), baseline };
+  }
+
+  // Called by the renderers right after a frame has been drawn
+  framePresented(): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    const elapsed = performance.now() - pending.sentAt;
+    if (elapsed > PROBE_TIMEOUT_MS) {
+      this.timeouts[pending.mode]++;
+      this.pending = null;
+      this.onUpdateCallback?.();
+      return;
+    }
+
+    const signature = this.readSignature();
+    if (!signature || !this.hasChanged(pending.baseline, signature)) return;
+
+    this.samples[pending.mode].push(elapsed);
+    this.pending = null;
+    this.onUpdateCallback?.();
+  }
+
+  private readSignature(): Uint8ClampedArray | null {
+    if (!this.canvas || !this.context) return null;
+
+    try {
+      const { data } = this.context.getImageData(
+        0,
+        0,
+        this.canvas.width,
+        this.canvas.height
+      );
+      const signature = new Uint8ClampedArray(
+        Math.ceil(data.length / (4 * SAMPLE_STEP)) * 3
+      );
+      let out = 0;
+      for (let i = 0; i < data.length; i += 4 * SAMPLE_STEP) {
+        signature[out++] = data[i];
+        signature[out++] = data[i + 1];
+        signature[out++] = data[i + 2];
+      }
+      return signature;
+    } catch {
+      return null;
+    }
+  }
+
+  private hasChanged(a: Uint8ClampedArray, b: Uint8ClampedArray): boolean {
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+      diff += Math.abs(a[i] - b[i]);
+    }
+    return diff / a.length > CHANGE_THRESHOLD;
+  }
+
+  getSummary(mode: LatencyMode): LatencySummary {
+    const sorted = [...this.samples[mode]].sort((a, b) => a - b);
+    const histogram = new Array(HISTOGRAM_BUCKETS).fill(0);
+    sorted.forEach((sample) => {
+      const bucket = Math.min(
+        HISTOGRAM_BUCKETS - 1,
+        Math.floor(sample / HISTOGRAM_BUCKET_MS)
+      );
+      histogram[bucket]++;
+    });
+
+    return {
+      mode,
+      count: sorted.length,
+      timeouts: this.timeouts[mode],
+      minMs: sorted[0] ?? 0,
+      maxMs: sorted[sorted.length - 1] ?? 0,
+      p50Ms: percentile(sorted, 50),
+      p95Ms: percentile(sorted, 95),
+      p99Ms: percentile(sorted, 99),
+      histogram,
+    };
+  }
+
+  reset(): void {
+    this.pending = null;
+    this.samples = { websocket: [], webrtc: [] };
+    this.timeouts = { websocket: 0, webrtc: 0 };
+    this.onUpdateCallback?.();
+  }
+
+  onUpdate(callback: () => void): void {
+    this.onUpdateCallback = callback;
+  }
+}
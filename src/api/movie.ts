@@ -0,0 +1,364 @@
+/**
+ * Movies
+ * Input recordings that start from a save state, for bug reproduction,
+ * speedrun verification and sharing runs. A movie is a JSON file
+ * (MOVIE_FILE_EXTENSION):
+ *
+ *   {
+ *     "format": "cloudgaming-movie",
+ *     "version": 1,
+ *     "rom": { "id": "...", "name": "...", "checksum": "<sha-1 hex> | null" },
+ *     "createdAt": "<ISO 8601>",
+ *     "frameRate": 59.73,
+ *     "frameSource": "server" | "estimated",
+ *     "startState": "<base64 emulator state>",
+ *     "length": 1234,
+ *     "inputs": [[0, 0], [42, 16], [50, 0]]
+ *   }
+ *
+ * Each input is [frame, mask]: from that frame on, exactly the buttons in the
+ * mask are held (bit N for button id N, see INPUT_BUTTON_IDS). Frames count
+ * emulator frames since the start state, are non-decreasing, and run up to
+ * length. They come from the server's video frame counter when the stream
+ * carries one ("server"), otherwise from InputReliability's frame clock,
+ * which follows pause and speed changes ("estimated"). With a server frame
+ * counter, the start is the frame the save state reports it was captured on,
+ * and inputs are recorded on the frames the server reports applying them,
+ * when it does; otherwise they are estimated from when they were sent.
+ *
+ * The version is bumped for changes old readers can't play; parseMovie
+ * refuses versions newer than MOVIE_VERSION. The ROM checksum is compared
+ * before replay so a movie is never played against another dump.
+ */
+
+import type { AppliedInput } from "./input-protocol";
+import type { InputReliability } from "./input-reliability";
+import { GBA_FRAME_INTERVAL_MS, GBA_FRAME_RATE } from "./play.api";
+
+export const MOVIE_FORMAT = "cloudgaming-movie";
+export const MOVIE_VERSION = 1;
+export const MOVIE_FILE_EXTENSION = ".cgmovie.json";
+
+// A server frame older than this doesn't count as a live counter
+const SERVER_FRAME_STALE_MS = 500;
+// Replayed changes are sent this many frames before they apply, so the
+// network delay doesn't shift them
+const REPLAY_LEAD_FRAMES = 10;
+// Longest wait before the replay clock is checked again, so a speed change
+// or a pause mid-wait is picked up
+const REPLAY_MAX_WAIT_MS = 50;
+const MAX_BUTTON_MASK = 0x3ff;
+
+export type MovieFrameSource = "server" | "estimated";
+
+export interface MovieRom {
+  id: string;
+  name: string;
+  // SHA-1 of the ROM file, null if the server doesn't know it
+  checksum: string | null;
+}
+
+// [frame, held button mask]
+export type MovieInput = [frame: number, mask: number];
+
+export interface Movie {
+  format: typeof MOVIE_FORMAT;
+  version: number;
+  rom: MovieRom;
+  createdAt: string;
+  frameRate: number;
+  frameSource: MovieFrameSource;
+  startState: string;
+  length: number;
+  inputs: MovieInput[];
+}
+
+export class MovieError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MovieError";
+  }
+}
+
+export function serializeMovie(movie: Movie): string {
+  return JSON.stringify(movie);
+}
+
+export function downloadMovie(movie: Movie): void {
+  const blob = new Blob([serializeMovie(movie)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const stamp = movie.createdAt.replace(/[:.]/g, "-");
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${
+    movie.rom.name || "movie"
+  }-${stamp}${MOVIE_FILE_EXTENSION}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function isFrame(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+export function parseMovie(text: string): Movie {
+  let data: Partial<Movie>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MovieError("Fichier de film illisible");
+  }
+
+  if (data?.format !== MOVIE_FORMAT) {
+    throw new MovieError("Ce fichier n'est pas un film");
+  }
+  if (!isFrame(data.version) || data.version > MOVIE_VERSION) {
+    throw new MovieError(`Version de film non supportée : ${data.version}`);
+  }
+  if (
+    typeof data.rom?.id !== "string" ||
+    typeof data.startState !== "string" ||
+    !isFrame(data.length) ||
+    !Array.isArray(data.inputs)
+  ) {
+    throw new MovieError("Film incomplet");
+  }
+
+  let previousFrame = 0;
+  data.inputs.forEach((input) => {
+    const [frame, mask] = Array.isArray(input) ? input : [];
+    if (
+      !isFrame(frame) ||
+      frame < previousFrame ||
+      !isFrame(mask) ||
+      mask > MAX_BUTTON_MASK
+    ) {
+      throw new MovieError("Entrées du film invalides");
+    }
+    previousFrame = frame;
+  });
+
+  return {
+    ...data,
+    rom: { ...data.rom, checksum: data.rom.checksum ?? null },
+  } as Movie;
+}
+
+// Throws if the movie was recorded on another ROM. Returns false when either
+// side has no checksum, so the match can't be verified.
+export function verifyMovieRom(
+  movie: Movie,
+  checksum: string | null | undefined
+): boolean {
+  if (!movie.rom.checksum || !checksum) return false;
+
+  if (movie.rom.checksum.toLowerCase() !== checksum.toLowerCase()) {
+    throw new MovieError(
+      `Ce film a été enregistré sur une autre ROM (${movie.rom.name})`
+    );
+  }
+  return true;
+}
+
+// Turns held mask changes into movie inputs, numbered by the server's frame
+// counter when video frames carry one. Inputs come from the server's applied
+// input reports when the transport has them, else from the local mask.
+export class MovieRecorder {
+  private reliability: InputReliability;
+  private rom: MovieRom | null = null;
+  private startState = "";
+  private createdAt = "";
+  private frameSource: MovieFrameSource = "estimated";
+  private startFrame = 0;
+  private inputs: MovieInput[] = [];
+  // clock is the frame clock's position when the frame was received
+  private serverFrame: { frame: number; clock: number; at: number } | null =
+    null;
+  // Last mask the server reported applying, null until the current
+  // transport reports one
+  private appliedMask: number | null = null;
+
+  constructor(reliability: InputReliability) {
+    this.reliability = reliability;
+  }
+
+  get isRecording(): boolean {
+    return this.rom !== null;
+  }
+
+  // Frame counter of the last video frame received from the server
+  noteServerFrame(frame: number): void {
+    this.serverFrame = {
+      frame,
+      clock: this.reliability.currentFrame(),
+      at: performance.now(),
+    };
+  }
+
+  noteAppliedInput(input: AppliedInput): void {
+    this.appliedMask = input.mask;
+    if (this.rom && this.frameSource === "server") {
+      this.push(input.frame - this.startFrame, input.mask);
+    }
+  }
+
+  // The next transport may not report applied inputs
+  clearAppliedInput(): void {
+    this.appliedMask = null;
+  }
+
+  // stateFrame is the frame the start state was captured on, if the server
+  // reported it
+  start(
+    startState: string,
+    rom: MovieRom,
+    mask: number,
+    stateFrame?: number
+  ): void {
+    const serverFrame = this.serverFrameNow();
+    const live =
+      this.serverFrame !== null &&
+      performance.now() - this.serverFrame.at < SERVER_FRAME_STALE_MS;
+
+    this.rom = rom;
+    this.startState = startState;
+    this.createdAt = new Date().toISOString();
+    this.frameSource = live ? "server" : "estimated";
+    this.startFrame =
+      live && serverFrame !== null
+        ? stateFrame ?? serverFrame
+        : this.reliability.currentFrame();
+    this.inputs = [[0, live ? this.appliedMask ?? mask : mask]];
+  }
+
+  // Held mask changed locally, ignored while the server reports its inputs
+  record(mask: number): void {
+    if (!this.rom) return;
+    if (this.frameSource === "server" && this.appliedMask !== null) return;
+    this.push(this.elapsedFrames(), mask);
+  }
+
+  // Returns the finished movie, or null if nothing was being recorded
+  stop(): Movie | null {
+    if (!this.rom) return null;
+
+    const last = this.inputs[this.inputs.length - 1];
+    const movie: Movie = {
+      format: MOVIE_FORMAT,
+      version: MOVIE_VERSION,
+      rom: this.rom,
+      createdAt: this.createdAt,
+      frameRate: GBA_FRAME_RATE,
+      frameSource: this.frameSource,
+      startState: this.startState,
+      length: Math.max(this.elapsedFrames(), last[0]),
+      inputs: this.inputs,
+    };
+
+    this.rom = null;
+    this.startState = "";
+    this.inputs = [];
+    return movie;
+  }
+
+  // A change on or before the last input's frame replaces its mask, which
+  // also covers reports about frames before the start
+  private push(frame: number, mask: number): void {
+    const last = this.inputs[this.inputs.length - 1];
+    if (frame <= last[0]) {
+      last[1] = mask;
+    } else if (mask !== last[1]) {
+      this.inputs.push([frame, mask]);
+    }
+  }
+
+  // Extrapolated from the last frame seen, in case video stopped carrying
+  // the counter (e.g. a switch to WebRTC)
+  private serverFrameNow(): number | null {
+    if (!this.serverFrame) return null;
+    return (
+      this.serverFrame.frame +
+      this.reliability.currentFrame() -
+      this.serverFrame.clock
+    );
+  }
+
+  private elapsedFrames(): number {
+    const frame =
+      this.frameSource === "server"
+        ? this.serverFrameNow()
+        : this.reliability.currentFrame();
+    return Math.max(0, (frame ?? this.startFrame) - this.startFrame);
+  }
+}
+
+// Feeds a movie's inputs through InputReliability, scheduled on its frame
+// clock so pauses and speed changes don't shift them. With the "state"
+// encoding each change is pinned to its frame; with "events" it is sent
+// when the clock reaches it, which is only as exact as that clock.
+export class MoviePlayer {
+  private reliability: InputReliability;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onEndCallback?: () => void;
+
+  constructor(reliability: InputReliability) {
+    this.reliability = reliability;
+  }
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  // Called when the movie played to its last frame
+  onEnd(callback: () => void): void {
+    this.onEndCallback = callback;
+  }
+
+  // Movie frame 0 maps to the current frame, call it right after the start
+  // state is loaded
+  play(movie: Movie): void {
+    this.stop();
+
+    const startFrame = this.reliability.currentFrame();
+    const baseFrame = startFrame + REPLAY_LEAD_FRAMES;
+
+    const schedule = (index: number) => {
+      const input = movie.inputs[index];
+      const frame = input ? input[0] : movie.length;
+
+      const remaining = startFrame + frame - this.reliability.currentFrame();
+      if (remaining > 0) {
+        const rate = this.reliability.getClockRate();
+        const delay =
+          rate > 0 ? (remaining * GBA_FRAME_INTERVAL_MS) / rate : Infinity;
+        this.timer = setTimeout(
+          () => schedule(index),
+          Math.min(delay, REPLAY_MAX_WAIT_MS)
+        );
+        return;
+      }
+
+      if (input) {
+        this.reliability.applyMask(input[1], baseFrame + frame);
+        // The next change is checked on a fresh tick, which keeps isPlaying
+        // true in between
+        this.timer = setTimeout(() => schedule(index + 1), 0);
+        return;
+      }
+
+      this.timer = null;
+      this.reliability.applyMask(0, baseFrame + frame);
+      this.onEndCallback?.();
+    };
+    schedule(0);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.reliability.applyMask(0);
+  }
+}
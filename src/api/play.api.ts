@@ -1,4 +1,26 @@
 import { io, Socket } from "socket.io-client";
+import type { WebGLFrameRenderer } from "./webgl-renderer";
+import type { AudioBufferStats } from "../lib/audio-jitter-buffer";
+import { PCMAudioOutput, pcm16ToFloat32 } from "../lib/audio-output";
+import { AudioMixer, type AudioSettings } from "../lib/audio-mixer";
+import {
+  AudioPacketDecoder,
+  getSupportedAudioCodecs,
+  type AudioCodec,
+} from "./audio-codecs";
+import { getServerHost, getSocketUrl } from "./webrtc/config";
+import type { StreamMode } from "./webrtc/types";
+import {
+  getSupportedInputEncodings,
+  InputSequencer,
+  type AppliedInput,
+  type HeldButtons,
+  type InputEncoding,
+  type InputEvent,
+  type InputStateFrame,
+} from "./input-protocol";
+import type { SessionCheat } from "./cheat-codes";
+import { loadUserSetting, saveUserSetting } from "./user-settings";
 
 export class PlayApiError extends Error {
   status?: number;
@@ -58,17 +80,70 @@ async function fetchWithErrorHandling<T>(
 
 export interface GameSession {
   sessionId: string;
+  // Picked by the server from the offered encodings. Servers that predate
+  // the negotiation only understand "events".
+  inputEncoding?: InputEncoding;
+  // Rewind buffer the server set up, null if it has none
+  rewind?: RewindSettings | null;
+}
+
+// The server snapshots the emulator every granularityFrames frames and keeps
+// bufferSeconds worth of snapshots to step back through
+export interface RewindSettings {
+  enabled: boolean;
+  bufferSeconds: number;
+  granularityFrames: number;
+}
+
+export const DEFAULT_REWIND_SETTINGS: RewindSettings = {
+  enabled: true,
+  bufferSeconds: 30,
+  granularityFrames: 4,
+};
+export const REWIND_MIN_BUFFER_SECONDS = 5;
+export const REWIND_MAX_BUFFER_SECONDS = 120;
+export const REWIND_MIN_GRANULARITY = 1;
+export const REWIND_MAX_GRANULARITY = 30;
+
+export interface GameSessionOptions {
+  rewind?: RewindSettings;
 }
 
 export interface AudioData {
-  data: string;
+  // Base64 string (legacy) or binary payload, encoded with `codec`
+  data: string | ArrayBuffer;
   sampleRate?: number;
   channels?: number;
+  // Defaults to "pcm16" when the server does not say
+  codec?: AudioCodec;
 }
 
+// "png" frames may arrive either as base64 strings (legacy servers) or as
+// binary ArrayBuffers; "rgb565" and "rgba" are raw little-endian pixel buffers
+export type FrameFormat = "png" | "webp" | "rgb565" | "rgba";
+
 export interface FrameData {
-  format: string;
-  data?: string;
+  format: FrameFormat;
+  data?: string | ArrayBuffer;
+  width?: number;
+  height?: number;
+  // Monotonic frame counter from the server, when provided
+  seq?: number;
+}
+
+const GBA_SCREEN_WIDTH = 240;
+const GBA_SCREEN_HEIGHT = 160;
+export const GBA_FRAME_RATE = 59.73;
+export const GBA_FRAME_INTERVAL_MS = 1000 / GBA_FRAME_RATE;
+
+// Formats this client can decode, in order of preference
+export function getSupportedFrameFormats(): FrameFormat[] {
+  const formats: FrameFormat[] = ["rgb565", "rgba"];
+  if (typeof createImageBitmap === "function") {
+    formats.push("webp");
+  }
+  formats.push("png");
+  return formats;
 }
 
 export type InputButton =
@@ -85,21 +160,36 @@ export type InputButton =
 
 export type InputState = "down" | "up";
 
-const getServerHost = () => {
-  if (import.meta.env.VITE_SERVER_URL) {
-    return import.meta.env.VITE_SERVER_URL;
-  }
-  const hostname = window.location.hostname;
-  return `http://${hostname}:3000`;
-};
-
 const getApiBaseUrl = () => `${getServerHost()}/api`;
 
-const getSocketUrl = () => getServerHost();
-
-export type StreamMode = "websocket" | "webrtc" | "both";
+export type { StreamMode };
+
+// Keyboard shortcuts for the emulator control commands
+export type EmulatorHotkey =
+  | "PAUSE"
+  | "RESET"
+  | "FAST_FORWARD"
+  | "SPEED_DOWN"
+  | "SPEED_UP"
+  // Held to rewind
+  | "REWIND";
+
+export const EMULATOR_HOTKEYS: EmulatorHotkey[] = [
+  "PAUSE",
+  "RESET",
+  "FAST_FORWARD",
+  "SPEED_DOWN",
+  "SPEED_UP",
+  "REWIND",
+];
+
+export function isEmulatorHotkey(
+  key: InputButton | EmulatorHotkey
+): key is EmulatorHotkey {
+  return (EMULATOR_HOTKEYS as string[]).includes(key);
+}
 
-export type KeyMappings = Record<InputButton, string>;
+export type KeyMappings = Record<InputButton | EmulatorHotkey, string>;
 export const DEFAULT_KEY_MAPPINGS: KeyMappings = {
   UP: "ArrowUp",
   DOWN: "ArrowDown",
@@ -111,6 +201,12 @@ export const DEFAULT_KEY_MAPPINGS: KeyMappings = {
   R: "s",
   START: "Enter",
   SELECT: "Shift",
+  PAUSE: "p",
+  RESET: "F2",
+  FAST_FORWARD: "Tab",
+  SPEED_DOWN: "-",
+  SPEED_UP: "=",
+  REWIND: "Backspace",
 };
 
 const STORAGE_KEY = "cloudgaming_key_mappings";
@@ -159,22 +255,231 @@ export function getKeyDisplayName(key: string): string {
   return keyDisplayMap[key] || key.toUpperCase();
 }
 
+// Gamepad support - indices follow the W3C "standard" gamepad mapping
+export type GamepadLayout = "xbox" | "playstation" | "8bitdo" | "generic";
+
+export type GamepadMappings = Record<InputButton, number>;
+
+export interface GamepadProfile {
+  layout: GamepadLayout;
+  mappings: GamepadMappings;
+  stickThreshold: number;
+  // Held to rewind, when the session has a rewind buffer
+  rewindButton?: number;
+}
+
+export const DEFAULT_GAMEPAD_MAPPINGS: GamepadMappings = {
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15,
+  A: 1,
+  B: 0,
+  L: 4,
+  R: 5,
+  START: 9,
+  SELECT: 8,
+};
+
+export const DEFAULT_STICK_THRESHOLD = 0.5;
+
+const GAMEPAD_STORAGE_KEY = "cloudgaming_gamepad_mappings";
+
+const GAMEPAD_BUTTON_NAMES: Record<GamepadLayout, string[]> = {
+  xbox: [
+    "A",
+    "B",
+    "X",
+    "Y",
+    "LB",
+    "RB",
+    "LT",
+    "RT",
+    "View",
+    "Menu",
+    "LS",
+    "RS",
+    "↑",
+    "↓",
+    "←",
+    "→",
+    "Xbox",
+  ],
+  playstation: [
+    "✕",
+    "○",
+    "□",
+    "△",
+    "L1",
+    "R1",
+    "L2",
+    "R2",
+    "Share",
+    "Options",
+    "L3",
+    "R3",
+    "↑",
+    "↓",
+    "←",
+    "→",
+    "PS",
+  ],
+  "8bitdo": [
+    "B",
+    "A",
+    "Y",
+    "X",
+    "L",
+    "R",
+    "ZL",
+    "ZR",
+    "−",
+    "+",
+    "L3",
+    "R3",
+    "↑",
+    "↓",
+    "←",
+    "→",
+    "Home",
+  ],
+  generic: [],
+};
+
+export function detectGamepadLayout(gamepadId: string): GamepadLayout {
+  const id = gamepadId.toLowerCase();
+  if (id.includes("8bitdo")) return "8bitdo";
+  if (
+    id.includes("054c") ||
+    id.includes("dualshock") ||
+    id.includes("dualsense") ||
+    id.includes("playstation")
+  ) {
+    return "playstation";
+  }
+  if (id.includes("045e") || id.includes("xbox") || id.includes("xinput")) {
+    return "xbox";
+  }
+  return "generic";
+}
+
+export function getDefaultGamepadProfile(gamepadId: string): GamepadProfile {
+  return {
+    layout: detectGamepadLayout(gamepadId),
+    mappings: { ...DEFAULT_GAMEPAD_MAPPINGS },
+    stickThreshold: DEFAULT_STICK_THRESHOLD,
+  };
+}
+
+function loadAllGamepadProfiles(): Record<string, Partial<GamepadProfile>> {
+  try {
+    const saved = localStorage.getItem(GAMEPAD_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (e) {
+    console.warn("Failed to load gamepad mappings:", e);
+  }
+  return {};
+}
+
+export function loadGamepadProfile(gamepadId: string): GamepadProfile {
+  const defaults = getDefaultGamepadProfile(gamepadId);
+  const saved = loadAllGamepadProfiles()[gamepadId];
+  if (!saved) return defaults;
+
+  return {
+    ...defaults,
+    ...saved,
+    mappings: { ...defaults.mappings, ...saved.mappings },
+  };
+}
+
+export function saveGamepadProfile(
+  gamepadId: string,
+  profile: GamepadProfile
+): void {
+  try {
+    const profiles = loadAllGamepadProfiles();
+    profiles[gamepadId] = profile;
+    localStorage.setItem(GAMEPAD_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Failed to save gamepad mappings:", e);
+  }
+}
+
+export function resetGamepadProfile(gamepadId: string): GamepadProfile {
+  try {
+    const profiles = loadAllGamepadProfiles();
+    delete profiles[gamepadId];
+    localStorage.setItem(GAMEPAD_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn("Failed to reset gamepad mappings:", e);
+  }
+  return getDefaultGamepadProfile(gamepadId);
+}
+
+export function getGamepadButtonDisplayName(
+  index: number,
+  layout: GamepadLayout
+): string {
+  return GAMEPAD_BUTTON_NAMES[layout][index] ?? `#${index}`;
+}
+
+export function getConnectedGamepads(): Gamepad[] {
+  if (!("getGamepads" in navigator)) return [];
+  return navigator
+    .getGamepads()
+    .filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected);
+}
+
+// Returns the buttons currently held on a gamepad, including the left stick
+// translated to D-pad directions once it crosses the profile's threshold
+export function readGamepadButtons(
+  gamepad: Gamepad,
+  profile: GamepadProfile
+): Set<InputButton> {
+  const pressed = new Set<InputButton>();
+
+  for (const [button, index] of Object.entries(profile.mappings)) {
+    if (gamepad.buttons[index]?.pressed) {
+      pressed.add(button as InputButton);
+    }
+  }
+
+  const [axisX = 0, axisY = 0] = gamepad.axes;
+  if (axisX <= -profile.stickThreshold) pressed.add("LEFT");
+  if (axisX >= profile.stickThreshold) pressed.add("RIGHT");
+  if (axisY <= -profile.stickThreshold) pressed.add("UP");
+  if (axisY >= profile.stickThreshold) pressed.add("DOWN");
+
+  return pressed;
+}
+
 export function keyToButton(
   key: string,
   mappings?: KeyMappings
 ): InputButton | null {
   const currentMappings = mappings || loadKeyMappings();
   for (const [button, mappedKey] of Object.entries(currentMappings)) {
-    if (mappedKey === key) {
+    if (mappedKey === key && !isEmulatorHotkey(button as InputButton)) {
       return button as InputButton;
     }
   }
   return null;
 }
 
+export function keyToHotkey(
+  key: string,
+  mappings: KeyMappings
+): EmulatorHotkey | null {
+  return EMULATOR_HOTKEYS.find((hotkey) => mappings[hotkey] === key) ?? null;
+}
+
 export async function createGameSession(
   romPath: string,
-  streamMode: StreamMode = "websocket"
+  streamMode: StreamMode = "websocket",
+  options: GameSessionOptions = {}
 ): Promise<GameSession> {
   return fetchWithErrorHandling<GameSession>(
     `${getApiBaseUrl()}/emulator/sessions`,
@@ -183,7 +488,14 @@ export async function createGameSession(
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ romPath, streamMode }),
+      body: JSON.stringify({
+        romPath,
+        streamMode,
+        frameFormats: getSupportedFrameFormats(),
+        audioCodecs: getSupportedAudioCodecs(),
+        inputEncodings: getSupportedInputEncodings(),
+        rewind: options.rewind?.enabled ? options.rewind : undefined,
+      }),
     }
   );
 }
@@ -206,6 +518,217 @@ export async function stopGameSession(sessionId: string): Promise<void> {
   );
 }
 
+// Emulator control: pause/resume, resets and speed. Commands go over the
+// control socket when it is connected, with the REST endpoints below as the
+// fallback.
+export type ResetKind = "soft" | "hard";
+
+export type EmulatorCommand =
+  | { type: "pause" }
+  | { type: "resume" }
+  // "soft" presses the console's reset, "hard" power-cycles it
+  | { type: "reset"; kind: ResetKind }
+  | { type: "speed"; speed: number }
+  // Steps back through the rewind buffer until rewind-stop
+  | { type: "rewind-start" }
+  | { type: "rewind-stop" };
+
+export interface EmulatorState {
+  paused: boolean;
+  // Emulation speed multiplier, 1 is real time
+  speed: number;
+  rewinding: boolean;
+}
+
+export const DEFAULT_EMULATOR_STATE: EmulatorState = {
+  paused: false,
+  speed: 1,
+  rewinding: false,
+};
+export const EMULATOR_SPEEDS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+export const MIN_EMULATOR_SPEED = 0.25;
+export const MAX_EMULATOR_SPEED = 4;
+// Speed while the fast-forward hotkey is held
+export const FAST_FORWARD_SPEED = MAX_EMULATOR_SPEED;
+
+// The state the command leads to, for servers that don't reply with one
+export function applyEmulatorCommand(
+  state: EmulatorState,
+  command: EmulatorCommand
+): EmulatorState {
+  switch (command.type) {
+    case "pause":
+      return { ...state, paused: true };
+    case "resume":
+      return { ...state, paused: false };
+    case "reset":
+      return state;
+    case "rewind-start":
+      return { ...state, rewinding: true };
+    case "rewind-stop":
+      return { ...state, rewinding: false };
+    case "speed":
+      return {
+        ...state,
+        speed: Math.min(
+          MAX_EMULATOR_SPEED,
+          Math.max(MIN_EMULATOR_SPEED, command.speed)
+        ),
+      };
+  }
+}
+
+// Next speed up or down the EMULATOR_SPEEDS ladder
+export function stepEmulatorSpeed(speed: number, direction: 1 | -1): number {
+  const next =
+    direction > 0
+      ? EMULATOR_SPEEDS.find((s) => s > speed)
+      : [...EMULATOR_SPEEDS].reverse().find((s) => s < speed);
+  return next ?? speed;
+}
+
+export async function pauseGameSession(
+  sessionId: string
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/pause`,
+    {
+      method: "POST",
+    }
+  );
+}
+
+export async function resumeGameSession(
+  sessionId: string
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/resume`,
+    {
+      method: "POST",
+    }
+  );
+}
+
+export async function resetGameSession(
+  sessionId: string,
+  kind: ResetKind = "soft"
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/reset`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ kind }),
+    }
+  );
+}
+
+export async function setGameSessionSpeed(
+  sessionId: string,
+  speed: number
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/speed`,
+    {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ speed }),
+    }
+  );
+}
+
+export async function startRewind(
+  sessionId: string
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/rewind-start`,
+    {
+      method: "POST",
+    }
+  );
+}
+
+export async function stopRewind(
+  sessionId: string
+): Promise<Partial<EmulatorState>> {
+  return fetchWithErrorHandling<Partial<EmulatorState>>(
+    `${getApiBaseUrl()}/emulator/sessions/${sessionId}/rewind-stop`,
+    {
+      method: "POST",
+    }
+  );
+}
+
+// REST path for a command; the reply's fields override the expected state
+export async function sendEmulatorCommand(
+  sessionId: string,
+  command: EmulatorCommand
+): Promise<Partial<EmulatorState>> {
+  switch (command.type) {
+    case "pause":
+      return pauseGameSession(sessionId);
+    case "resume":
+      return resumeGameSession(sessionId);
+    case "reset":
+      return resetGameSession(sessionId, command.kind);
+    case "speed":
+      return setGameSessionSpeed(sessionId, command.speed);
+    case "rewind-start":
+      return startRewind(sessionId);
+    case "rewind-stop":
+      return stopRewind(sessionId);
+  }
+}
+
+// How long a control socket command waits for the server's acknowledgement
+const COMMAND_TIMEOUT_MS = 2000;
+
+export type ReconnectState = "connected" | "reconnecting" | "failed";
+
+export interface ReconnectStatus {
+  state: ReconnectState;
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface ReconnectOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+function getEnvNumber(raw: string | undefined): number | undefined {
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+// The defaults, overridden by VITE_RECONNECT_MAX_ATTEMPTS,
+// VITE_RECONNECT_BASE_DELAY_MS and VITE_RECONNECT_MAX_DELAY_MS when set
+export function getReconnectOptions(): ReconnectOptions {
+  const env = import.meta.env;
+  return {
+    maxAttempts:
+      getEnvNumber(env.VITE_RECONNECT_MAX_ATTEMPTS) ??
+      DEFAULT_RECONNECT_OPTIONS.maxAttempts,
+    baseDelayMs:
+      getEnvNumber(env.VITE_RECONNECT_BASE_DELAY_MS) ??
+      DEFAULT_RECONNECT_OPTIONS.baseDelayMs,
+    maxDelayMs:
+      getEnvNumber(env.VITE_RECONNECT_MAX_DELAY_MS) ??
+      DEFAULT_RECONNECT_OPTIONS.maxDelayMs,
+  };
+}
+
 export class GameSocketManager {
   private controlSocket: Socket | null = null;
   private videoSocket: Socket | null = null;
@@ -216,35 +739,46 @@ export class GameSocketManager {
   private onDisconnectCallback?: () => void;
   private onFrameCallback?: (data: FrameData) => void;
   private onAudioCallback?: (data: AudioData) => void;
+  private onInputAppliedCallback?: (input: AppliedInput) => void;
+  private onReconnectStatusCallback?: (status: ReconnectStatus) => void;
+  private onEmulatorStateCallback?: (state: EmulatorState) => void;
 
   private connectionCount = 0;
   private readonly expectedConnections = 4;
 
-  connect(): void {
-    const serverUrl = getSocketUrl();
+  private readonly reconnectOptions: ReconnectOptions;
+  private reconnectState: ReconnectState | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionId: string | null = null;
 
-    this.controlSocket = io(serverUrl, {
-      transports: ["websocket"],
-    });
+  constructor(options: Partial<ReconnectOptions> = {}) {
+    this.reconnectOptions = { ...getReconnectOptions(), ...options };
+  }
 
-    this.videoSocket = io(`${serverUrl}/video`, {
-      transports: ["websocket"],
-    });
+  connect(): void {
+    const serverUrl = getSocketUrl();
 
-    this.audioSocket = io(`${serverUrl}/audio`, {
-      transports: ["websocket"],
-    });
+    // Reconnection is driven by our own state machine so the four
+    // namespaces come back together and the session can be resumed
+    const options = { transports: ["websocket"], reconnection: false };
 
-    this.inputSocket = io(`${serverUrl}/input`, {
-      transports: ["websocket"],
-    });
+    this.controlSocket = io(serverUrl, options);
+    this.videoSocket = io(`${serverUrl}/video`, options);
+    this.audioSocket = io(`${serverUrl}/audio`, options);
+    this.inputSocket = io(`${serverUrl}/input`, options);
 
     this.controlSocket.on("connect", () => {
       this.checkAllConnected();
     });
 
-    this.controlSocket.on("disconnect", () => {
-      this.onDisconnectCallback?.();
+    this.controlSocket.on("disconnect", (reason) => {
+      this.handleSocketDrop(reason);
+    });
+
+    // Pushed when another client or the server changes pause or speed
+    this.controlSocket.on("emulator-state", (state: EmulatorState) => {
+      this.onEmulatorStateCallback?.(state);
     });
 
     this.videoSocket.on("connect", () => {
@@ -255,7 +789,9 @@ export class GameSocketManager {
       this.onFrameCallback?.(data);
     });
 
-    this.videoSocket.on("disconnect", () => {});
+    this.videoSocket.on("disconnect", (reason) => {
+      this.handleSocketDrop(reason);
+    });
 
     this.audioSocket.on("connect", () => {
       this.checkAllConnected();
@@ -265,13 +801,22 @@ export class GameSocketManager {
       this.onAudioCallback?.(data);
     });
 
-    this.audioSocket.on("disconnect", () => {});
+    this.audioSocket.on("disconnect", (reason) => {
+      this.handleSocketDrop(reason);
+    });
 
     this.inputSocket.on("connect", () => {
       this.checkAllConnected();
     });
 
-    this.inputSocket.on("disconnect", () => {});
+    // Sent by servers that report which frame each input change landed on
+    this.inputSocket.on("input-applied", (input: AppliedInput) => {
+      this.onInputAppliedCallback?.(input);
+    });
+
+    this.inputSocket.on("disconnect", (reason) => {
+      this.handleSocketDrop(reason);
+    });
   }
 
   private checkAllConnected(): void {
@@ -283,11 +828,93 @@ export class GameSocketManager {
 
     if (allConnected && this.connectionCount === 0) {
       this.connectionCount = this.expectedConnections;
+
+      if (this.reconnectState === "reconnecting") {
+        this.clearReconnectTimer();
+        this.resumeSession();
+      }
+      this.setReconnectState("connected");
       this.onConnectCallback?.();
     }
   }
 
+  private handleSocketDrop(reason: Socket.DisconnectReason): void {
+    // Disconnects we asked for are not failures
+    if (reason === "io client disconnect") return;
+    if (
+      this.reconnectState === "reconnecting" ||
+      this.reconnectState === "failed"
+    ) {
+      return;
+    }
+
+    this.connectionCount = 0;
+    this.reconnectAttempt = 0;
+    this.setReconnectState("reconnecting");
+    this.onDisconnectCallback?.();
+    this.scheduleReconnect();
+  }
+
+  // Each backoff step waits once: the attempt made at the end of a step has
+  // until the end of the next one to bring all namespaces back, and the
+  // budget is spent when the last attempt's step runs out
+  private scheduleReconnect(): void {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.reconnectOptions;
+    const delay = Math.min(
+      maxDelayMs,
+      baseDelayMs * Math.pow(2, this.reconnectAttempt)
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.reconnectState !== "reconnecting") return;
+
+      if (this.reconnectAttempt >= maxAttempts) {
+        this.setReconnectState("failed");
+        return;
+      }
+
+      this.reconnectAttempt++;
+      this.setReconnectState("reconnecting");
+      [
+        this.controlSocket,
+        this.videoSocket,
+        this.audioSocket,
+        this.inputSocket,
+      ].forEach((socket) => {
+        if (socket && !socket.connected) socket.connect();
+      });
+      this.scheduleReconnect();
+    }, delay);
+  }
+
+  private resumeSession(): void {
+    if (!this.sessionId) return;
+
+    this.subscribeToSession(this.sessionId);
+  }
+
+  private setReconnectState(state: ReconnectState): void {
+    this.reconnectState = state;
+    this.onReconnectStatusCallback?.({
+      state,
+      attempt: this.reconnectAttempt,
+      maxAttempts: this.reconnectOptions.maxAttempts,
+    });
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
   disconnect(): void {
+    this.clearReconnectTimer();
+    this.reconnectState = null;
+    this.reconnectAttempt = 0;
+
     this.controlSocket?.disconnect();
     this.videoSocket?.disconnect();
     this.audioSocket?.disconnect();
@@ -298,6 +925,7 @@ export class GameSocketManager {
     this.audioSocket = null;
     this.inputSocket = null;
     this.connectionCount = 0;
+    this.sessionId = null;
   }
 
   subscribeToSession(sessionId: string): void {
@@ -305,19 +933,91 @@ export class GameSocketManager {
       throw new Error("Sockets not connected");
     }
 
+    this.sessionId = sessionId;
+
     this.controlSocket?.emit("subscribe", { sessionId });
-    this.videoSocket?.emit("subscribe", { sessionId });
-    this.audioSocket?.emit("subscribe", { sessionId });
+    this.videoSocket?.emit("subscribe", {
+      sessionId,
+      frameFormats: getSupportedFrameFormats(),
+    });
+    this.audioSocket?.emit("subscribe", {
+      sessionId,
+      audioCodecs: getSupportedAudioCodecs(),
+    });
     this.inputSocket?.emit("subscribe", { sessionId });
   }
 
-  sendInput(sessionId: string, button: InputButton, state: InputState): void {
-    if (!this.inputSocket?.connected) {
-      console.warn("Cannot send input - input socket not connected");
-      return;
+  // Events lost while disconnected are repaired by the next held-buttons
+  // sync, which InputReliability sends as soon as the sockets are back
+  sendInput(sessionId: string, event: InputEvent): void {
+    if (!this.inputSocket?.connected) return;
+    this.inputSocket.emit("input", { sessionId, ...event });
+  }
+
+  sendHeldButtons(sessionId: string, held: HeldButtons): void {
+    if (!this.inputSocket?.connected) return;
+    this.inputSocket.emit("held-buttons", { sessionId, ...held });
+  }
+
+  sendInputState(sessionId: string, state: InputStateFrame): void {
+    if (!this.inputSocket?.connected) return;
+    this.inputSocket.emit("input-state", { sessionId, ...state });
+  }
+
+  // Resolves with the server's reply, or null if the control socket is down
+  // or the server didn't acknowledge in time
+  async sendCommand(
+    sessionId: string,
+    command: EmulatorCommand
+  ): Promise<Partial<EmulatorState> | null> {
+    if (!this.controlSocket?.connected) return null;
+
+    try {
+      const reply = await this.controlSocket
+        .timeout(COMMAND_TIMEOUT_MS)
+        .emitWithAck("emulator-command", { sessionId, ...command });
+      return reply?.success === false ? null : reply ?? {};
+    } catch (error) {
+      console.warn("Emulator command not acknowledged:", error);
+      return null;
+    }
+  }
+
+  // Replaces the session's active cheats. Resolves false if the control
+  // socket is down or the server didn't acknowledge in time.
+  async setCheats(sessionId: string, cheats: SessionCheat[]): Promise<boolean> {
+    if (!this.controlSocket?.connected) return false;
+
+    try {
+      const reply = await this.controlSocket
+        .timeout(COMMAND_TIMEOUT_MS)
+        .emitWithAck("set-cheats", { sessionId, cheats });
+      return reply?.success !== false;
+    } catch (error) {
+      console.warn("Cheats not acknowledged:", error);
+      return false;
     }
+  }
+
+  onEmulatorState(callback: (state: EmulatorState) => void): void {
+    this.onEmulatorStateCallback = callback;
+  }
 
-    this.inputSocket.emit("input", { sessionId, button, state });
+  // Resolves once all four namespaces are connected, or false on timeout
+  waitForConnection(timeoutMs: number = 5000): Promise<boolean> {
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const check = () => {
+        if (this.isConnected()) {
+          resolve(true);
+        } else if (Date.now() - startedAt > timeoutMs) {
+          resolve(false);
+        } else {
+          setTimeout(check, 100);
+        }
+      };
+      check();
+    });
   }
 
   onConnect(callback: () => void): void {
@@ -336,6 +1036,14 @@ export class GameSocketManager {
     this.onAudioCallback = callback;
   }
 
+  onInputApplied(callback: (input: AppliedInput) => void): void {
+    this.onInputAppliedCallback = callback;
+  }
+
+  onReconnectStatus(callback: (status: ReconnectStatus) => void): void {
+    this.onReconnectStatusCallback = callback;
+  }
+
   isConnected(): boolean {
     return (
       (this.controlSocket?.connected ?? false) &&
@@ -348,18 +1056,42 @@ export class GameSocketManager {
 
 export class GameAudioManager {
   private audioContext: AudioContext | null = null;
-  private audioBufferQueue: AudioBufferSourceNode[] = [];
-  private nextPlayTime: number = 0;
+  private pcmOutput = new PCMAudioOutput();
+  private mixer = new AudioMixer();
+  private decoder = new AudioPacketDecoder();
+
+  constructor() {
+    this.decoder.onDecoded((audio) => {
+      this.pcmOutput.push(
+        pcm16ToFloat32(audio.samples),
+        audio.sampleRate,
+        audio.channels
+      );
+    });
+  }
 
-  initialize(): void {
+  async initialize(): Promise<void> {
     const AudioContextClass =
       window.AudioContext || (window as any).webkitAudioContext;
-    this.audioContext = new AudioContextClass();
+    this.audioContext = new AudioContextClass({
+      latencyHint: "interactive",
+      sampleRate: 48000,
+    });
 
     console.log("Audio Context initialized:", {
       sampleRate: this.audioContext.sampleRate,
       state: this.audioContext.state,
     });
+
+    const mixerInput = this.mixer.connect(
+      this.audioContext,
+      this.audioContext.destination
+    );
+    await this.pcmOutput.connect(this.audioContext, mixerInput);
+  }
+
+  setAudioSettings(settings: AudioSettings): void {
+    this.mixer.apply(settings);
   }
 
   async resume(): Promise<void> {
@@ -368,6 +1100,10 @@ export class GameAudioManager {
     }
   }
 
+  onBufferStats(callback: (stats: AudioBufferStats) => void): void {
+    this.pcmOutput.onStats(callback);
+  }
+
   playAudio(audioData: AudioData): void {
     if (!this.audioContext) {
       console.warn("Audio context not initialized");
@@ -381,78 +1117,42 @@ export class GameAudioManager {
     }
 
     try {
-      const binaryString = atob(audioData.data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-
-      const int16Array = new Int16Array(bytes.buffer);
-      const float32Array = new Float32Array(int16Array.length);
-
-      for (let i = 0; i < int16Array.length; i++) {
-        float32Array[i] = int16Array[i] / 32768.0;
-      }
-
-      const sampleRate = audioData.sampleRate || 32040;
-      const channels = audioData.channels || 2;
-      const samplesPerChannel = float32Array.length / channels;
-
-      const audioBuffer = audioContext.createBuffer(
-        channels,
-        samplesPerChannel,
-        sampleRate
-      );
-
-      for (let channel = 0; channel < channels; channel++) {
-        const channelData = audioBuffer.getChannelData(channel);
-        for (let i = 0; i < samplesPerChannel; i++) {
-          channelData[i] = float32Array[i * channels + channel];
+      let payload: Uint8Array;
+      if (audioData.data instanceof ArrayBuffer) {
+        payload = new Uint8Array(audioData.data);
+      } else {
+        const binaryString = atob(audioData.data);
+        payload = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+          payload[i] = binaryString.charCodeAt(i);
         }
       }
 
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-
-      const currentTime = audioContext.currentTime;
-      const startTime = Math.max(currentTime, this.nextPlayTime);
-
-      source.start(startTime);
-
-      const duration = audioBuffer.duration;
-      this.nextPlayTime = startTime + duration;
-
-      source.onended = () => {
-        const index = this.audioBufferQueue.indexOf(source);
-        if (index > -1) {
-          this.audioBufferQueue.splice(index, 1);
-        }
-      };
-
-      this.audioBufferQueue.push(source);
-
-      if (Math.random() < 0.01) {
-        console.log("Playing audio:", {
-          samples: samplesPerChannel,
-          duration: duration.toFixed(3),
-          channels,
-          sampleRate,
-          queueLength: this.audioBufferQueue.length,
-        });
-      }
+      this.decoder.decode({
+        codec: audioData.codec ?? "pcm16",
+        sampleRate: audioData.sampleRate || 32040,
+        channels: audioData.channels || 2,
+        payload,
+      });
     } catch (error) {
       console.error("Error playing audio:", error);
     }
   }
 
+  // Emulation speed multiplier, see WebRTCAudioPlayer.setPlaybackSpeed
+  setPlaybackSpeed(speed: number): void {
+    this.pcmOutput.setPlaybackRate(speed);
+  }
+
+  // Drops buffered audio, e.g. when the stream transport changes
+  clearQueue(): void {
+    this.pcmOutput.clear();
+  }
+
   cleanup(): void {
-    this.audioBufferQueue.forEach((node) => {
-      try {
-        node.stop();
-      } catch (e) {}
-    });
-    this.audioBufferQueue = [];
+    this.decoder.close();
+    this.pcmOutput.disconnect();
+    this.mixer.disconnect();
 
     if (this.audioContext) {
       this.audioContext.close();
@@ -461,49 +1161,354 @@ export class GameAudioManager {
   }
 }
 
+type DecodedFrame = HTMLImageElement | ImageBitmap | ImageData;
+
+interface QueuedFrame {
+  seq: number;
+  image: DecodedFrame;
+}
+
+// Frames kept beyond the target depth before the queue skips ahead
+const MAX_EXTRA_FRAMES = 3;
+
+export const DEFAULT_FRAME_DELAY_MS = 0;
+const FRAME_DELAY_STORAGE_KEY = "cloudgaming_frame_delay";
+
+export function loadFrameDelay(): number {
+  const { delayMs } = loadUserSetting(FRAME_DELAY_STORAGE_KEY, {
+    delayMs: DEFAULT_FRAME_DELAY_MS,
+  });
+  return Number.isFinite(delayMs) && delayMs >= 0
+    ? delayMs
+    : DEFAULT_FRAME_DELAY_MS;
+}
+
+export function saveFrameDelay(delayMs: number): void {
+  saveUserSetting(FRAME_DELAY_STORAGE_KEY, { delayMs });
+}
+
+// Decodes incoming frames, orders them by sequence number and presents them
+// on requestAnimationFrame at the GBA refresh rate. The target delay holds a
+// few frames back to absorb network bursts at the cost of latency.
 export class GameCanvasManager {
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
+  private onFramePresentedCallback?: () => void;
+  private localSeq = 0;
+  private lastPresentedSeq = -1;
+  private rewinding = false;
+  private queue: QueuedFrame[] = [];
+  private targetFrames = 0;
+  private primed = false;
+  private nextPresentAt = 0;
+  private rafId: number | null = null;
+  private webglRenderer: WebGLFrameRenderer | null = null;
+
+  constructor(targetDelayMs: number = DEFAULT_FRAME_DELAY_MS) {
+    this.setTargetDelay(targetDelayMs);
+  }
 
   initialize(canvas: HTMLCanvasElement): void {
     this.canvas = canvas;
     this.context = canvas.getContext("2d");
   }
 
+  onFramePresented(callback: () => void): void {
+    this.onFramePresentedCallback = callback;
+  }
+
+  // Present through a WebGL renderer (shader filters) instead of the 2D
+  // context; pass null to go back to the 2D canvas
+  setWebGLRenderer(renderer: WebGLFrameRenderer | null): void {
+    this.webglRenderer = renderer;
+  }
+
+  setTargetDelay(delayMs: number): void {
+    this.targetFrames = Math.max(
+      0,
+      Math.round(delayMs / GBA_FRAME_INTERVAL_MS)
+    );
+  }
+
   renderFrame(frameData: FrameData): void {
     if (!this.canvas || !this.context) {
       console.warn("Canvas not initialized");
       return;
     }
 
-    if (frameData.format === "png" && frameData.data) {
-      const img = new Image();
-      img.onload = () => {
-        if (this.context) {
-          this.context.clearRect(0, 0, 240, 160);
-          this.context.drawImage(img, 0, 0, 240, 160);
-        }
-      };
-      img.onerror = (e) => {
-        console.error("Failed to load frame image:", e);
-      };
-      img.src = `data:image/png;base64,${frameData.data}`;
-    } else {
-      console.warn("Using fallback rendering - no PNG data");
+    // Sequence numbers are taken at arrival so that decodes finishing out of
+    // order still queue up in the order the server sent them
+    const seq = frameData.seq ?? this.localSeq++;
+
+    this.decodeFrame(frameData)
+      .then((image) => {
+        if (image) this.enqueue({ seq, image });
+      })
+      .catch((error) => {
+        console.error("Failed to decode frame:", error);
+      });
+  }
+
+  // Rewound frames come with decreasing sequence numbers, so while rewinding
+  // they are shown in arrival order. Ordering starts over on each switch.
+  setRewinding(rewinding: boolean): void {
+    if (rewinding === this.rewinding) return;
+
+    this.rewinding = rewinding;
+    this.queue.forEach((frame) => releaseFrame(frame.image));
+    this.queue = [];
+    this.lastPresentedSeq = -1;
+  }
+
+  // Drops queued frames and resets pacing, e.g. when a session ends
+  clear(): void {
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.queue.forEach((frame) => releaseFrame(frame.image));
+    this.queue = [];
+    this.primed = false;
+    this.lastPresentedSeq = -1;
+    this.localSeq = 0;
+  }
+
+  private decodeFrame(frameData: FrameData): Promise<DecodedFrame | null> {
+    const data = frameData.data;
+
+    if (data instanceof ArrayBuffer) {
+      const width = frameData.width ?? GBA_SCREEN_WIDTH;
+      const height = frameData.height ?? GBA_SCREEN_HEIGHT;
+
+      // ImageData throws synchronously on a size mismatch, which the
+      // caller's .catch would not see
+      if (!isFrameSizeValid(frameData.format, data.byteLength, width, height)) {
+        console.warn(
+          `Dropping ${frameData.format} frame: ${data.byteLength} bytes for ${width}x${height}`
+        );
+        return Promise.resolve(null);
+      }
+
+      switch (frameData.format) {
+        case "rgba":
+          return this.toDrawable(
+            new ImageData(new Uint8ClampedArray(data), width, height)
+          );
+        case "rgb565":
+          return this.toDrawable(rgb565ToImageData(data, width, height));
+        case "png":
+        case "webp":
+          // createImageBitmap decodes off the main thread
+          return createImageBitmap(
+            new Blob([data], { type: `image/${frameData.format}` })
+          );
+        default:
+          console.warn("Unsupported frame format:", frameData.format);
+          return Promise.resolve(null);
+      }
+    }
+
+    if (frameData.format === "png" && data) {
+      return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = `data:image/png;base64,${data}`;
+      });
+    }
+
+    console.warn("Using fallback rendering - no frame data");
+    if (this.context && this.canvas) {
       this.context.fillStyle = `rgb(${Math.random() * 255}, ${
         Math.random() * 255
       }, ${Math.random() * 255})`;
       this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
     }
+    return Promise.resolve(null);
+  }
+
+  // Raw buffers at the native size can be blitted directly; anything else
+  // needs scaling, which putImageData cannot do
+  private toDrawable(imageData: ImageData): Promise<DecodedFrame> {
+    if (
+      imageData.width === GBA_SCREEN_WIDTH &&
+      imageData.height === GBA_SCREEN_HEIGHT
+    ) {
+      return Promise.resolve(imageData);
+    }
+    return createImageBitmap(imageData);
+  }
+
+  private enqueue(frame: QueuedFrame): void {
+    if (!this.rewinding && frame.seq <= this.lastPresentedSeq) {
+      releaseFrame(frame.image);
+      return;
+    }
+
+    let index = this.queue.length;
+    while (
+      !this.rewinding &&
+      index > 0 &&
+      this.queue[index - 1].seq > frame.seq
+    ) {
+      index--;
+    }
+    this.queue.splice(index, 0, frame);
+
+    // Skip ahead when a burst leaves us too far behind
+    const maxDepth = this.targetFrames + MAX_EXTRA_FRAMES;
+    while (this.queue.length > maxDepth) {
+      const dropped = this.queue.shift();
+      if (dropped) releaseFrame(dropped.image);
+    }
+
+    if (this.rafId === null) {
+      this.rafId = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private tick = (now: number): void => {
+    this.rafId = null;
+
+    if (!this.primed) {
+      // Wait until the target depth is buffered before presenting
+      if (this.queue.length <= this.targetFrames) return;
+      this.primed = true;
+      this.nextPresentAt = now;
+    }
+
+    if (now >= this.nextPresentAt) {
+      const frame = this.queue.shift();
+      if (frame) {
+        this.present(frame);
+      }
+
+      this.nextPresentAt += GBA_FRAME_INTERVAL_MS;
+      if (now - this.nextPresentAt > GBA_FRAME_INTERVAL_MS) {
+        this.nextPresentAt = now + GBA_FRAME_INTERVAL_MS;
+      }
+    }
+
+    if (this.queue.length === 0) {
+      // Underrun: rebuffer to the target depth before resuming
+      this.primed = this.targetFrames === 0;
+      return;
+    }
+
+    this.rafId = requestAnimationFrame(this.tick);
+  };
+
+  private present(frame: QueuedFrame): void {
+    this.lastPresentedSeq = frame.seq;
+
+    if (this.webglRenderer) {
+      this.webglRenderer.draw(frame.image);
+    } else if (!this.context) {
+      releaseFrame(frame.image);
+      return;
+    } else if (frame.image instanceof ImageData) {
+      this.context.putImageData(frame.image, 0, 0);
+    } else {
+      this.context.clearRect(0, 0, GBA_SCREEN_WIDTH, GBA_SCREEN_HEIGHT);
+      this.context.drawImage(
+        frame.image,
+        0,
+        0,
+        GBA_SCREEN_WIDTH,
+        GBA_SCREEN_HEIGHT
+      );
+    }
+
+    releaseFrame(frame.image);
+    this.onFramePresentedCallback?.();
   }
 }
 
+const RAW_BYTES_PER_PIXEL: Partial<Record<FrameFormat, number>> = {
+  rgba: 4,
+  rgb565: 2,
+};
+
+// Raw pixel formats must carry exactly width x height pixels; encoded ones
+// (png, webp) are checked by their decoder
+export function isFrameSizeValid(
+  format: FrameFormat,
+  byteLength: number,
+  width: number,
+  height: number
+): boolean {
+  const bytesPerPixel = RAW_BYTES_PER_PIXEL[format];
+  if (bytesPerPixel === undefined) return true;
+  return (
+    Number.isInteger(width) &&
+    Number.isInteger(height) &&
+    width > 0 &&
+    height > 0 &&
+    byteLength === width * height * bytesPerPixel
+  );
+}
+
+function releaseFrame(image: DecodedFrame): void {
+  if (image instanceof ImageBitmap) {
+    image.close();
+  }
+}
+
+function rgb565ToImageData(
+  buffer: ArrayBuffer,
+  width: number,
+  height: number
+): ImageData {
+  const source = new DataView(buffer);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const count = Math.min(width * height, buffer.byteLength >> 1);
+
+  for (let i = 0; i < count; i++) {
+    const value = source.getUint16(i * 2, true);
+    const r = (value >> 11) & 0x1f;
+    const g = (value >> 5) & 0x3f;
+    const b = value & 0x1f;
+    const o = i * 4;
+    pixels[o] = (r << 3) | (r >> 2);
+    pixels[o + 1] = (g << 2) | (g >> 4);
+    pixels[o + 2] = (b << 3) | (b >> 2);
+    pixels[o + 3] = 255;
+  }
+
+  return new ImageData(pixels, width, height);
+}
+
+export type InputSender = (button: InputButton, state: InputState) => void;
+
 export class GameInputManager {
   private sessionId: string | null = null;
   private socketManager: GameSocketManager;
+  private inputSender: InputSender | null = null;
+  // Only used when inputs go straight to the input socket
+  private sequencer = new InputSequencer();
   private keyDownHandler: ((e: KeyboardEvent) => void) | null = null;
   private keyUpHandler: ((e: KeyboardEvent) => void) | null = null;
+  private blurHandler: (() => void) | null = null;
+  private visibilityHandler: (() => void) | null = null;
   private keyMappings: KeyMappings;
+  // Hotkeys whose key is down, released if focus is lost while held
+  private heldHotkeys = new Set<EmulatorHotkey>();
+
+  private gamepadPollId: number | null = null;
+  private gamepadProfiles = new Map<string, GamepadProfile>();
+  private gamepadHeld = new Map<number, Set<InputButton>>();
+  private macroKeys = new Map<string, string>();
+  private macroGamepadButtons = new Map<number, string>();
+  private macroGamepadHeld = new Map<number, Set<number>>();
+  // Gamepads holding their rewind button
+  private rewindGamepadHeld = new Set<number>();
+  private onMacroTriggerCallback?: (macroId: string) => void;
+  private onHotkeyCallback?: (
+    hotkey: EmulatorHotkey,
+    state: InputState
+  ) => void;
+  private gamepadConnectedHandler: ((e: GamepadEvent) => void) | null = null;
+  private gamepadDisconnectedHandler: ((e: GamepadEvent) => void) | null = null;
 
   constructor(socketManager: GameSocketManager) {
     this.socketManager = socketManager;
@@ -514,10 +1519,60 @@ export class GameInputManager {
     this.sessionId = sessionId;
   }
 
+  // Route inputs through a custom sender (e.g. the WebRTC data channel)
+  // instead of the input socket
+  setInputSender(sender: InputSender | null): void {
+    this.inputSender = sender;
+  }
+
   updateKeyMappings(mappings: KeyMappings): void {
     this.keyMappings = mappings;
   }
 
+  updateGamepadProfile(gamepadId: string, profile: GamepadProfile): void {
+    this.gamepadProfiles.set(gamepadId, profile);
+  }
+
+  // Keys and gamepad buttons that trigger macros. Game button mappings take
+  // precedence when both use the same key.
+  updateMacroBindings(
+    bindings: { id: string; key?: string; gamepadButton?: number }[]
+  ): void {
+    this.macroKeys.clear();
+    this.macroGamepadButtons.clear();
+    bindings.forEach(({ id, key, gamepadButton }) => {
+      if (key) this.macroKeys.set(key.toLowerCase(), id);
+      if (gamepadButton !== undefined) {
+        this.macroGamepadButtons.set(gamepadButton, id);
+      }
+    });
+  }
+
+  onMacroTrigger(callback: (macroId: string) => void): void {
+    this.onMacroTriggerCallback = callback;
+  }
+
+  // Emulator shortcuts from KeyMappings. Ups are reported too, for the
+  // hold-to-fast-forward key.
+  onHotkey(
+    callback: (hotkey: EmulatorHotkey, state: InputState) => void
+  ): void {
+    this.onHotkeyCallback = callback;
+  }
+
+  private send(button: InputButton, state: InputState): void {
+    if (!this.sessionId) return;
+
+    if (this.inputSender) {
+      this.inputSender(button, state);
+    } else {
+      this.socketManager.sendInput(
+        this.sessionId,
+        this.sequencer.next(button, state)
+      );
+    }
+  }
+
   setupKeyboardControls(): void {
     this.keyDownHandler = (e: KeyboardEvent) => {
       if (!this.sessionId) return;
@@ -525,7 +1580,24 @@ export class GameInputManager {
       const button = keyToButton(e.key, this.keyMappings);
       if (button) {
         e.preventDefault();
-        this.socketManager.sendInput(this.sessionId, button, "down");
+        this.send(button, "down");
+        return;
+      }
+
+      const hotkey = keyToHotkey(e.key, this.keyMappings);
+      if (hotkey) {
+        e.preventDefault();
+        if (!e.repeat) {
+          this.heldHotkeys.add(hotkey);
+          this.onHotkeyCallback?.(hotkey, "down");
+        }
+        return;
+      }
+
+      const macroId = this.macroKeys.get(e.key.toLowerCase());
+      if (macroId && !e.repeat) {
+        e.preventDefault();
+        this.onMacroTriggerCallback?.(macroId);
       }
     };
 
@@ -535,21 +1607,162 @@ export class GameInputManager {
       const button = keyToButton(e.key, this.keyMappings);
       if (button) {
         e.preventDefault();
-        this.socketManager.sendInput(this.sessionId, button, "up");
+        this.send(button, "up");
+        return;
+      }
+
+      const hotkey = keyToHotkey(e.key, this.keyMappings);
+      if (hotkey) {
+        e.preventDefault();
+        this.heldHotkeys.delete(hotkey);
+        this.onHotkeyCallback?.(hotkey, "up");
       }
     };
 
+    // Key-up events never arrive once the window loses focus, which would
+    // leave hold-to-fast-forward or rewind running
+    this.blurHandler = () => this.releaseHotkeys();
+    this.visibilityHandler = () => {
+      if (document.visibilityState === "hidden") this.releaseHotkeys();
+    };
+
     window.addEventListener("keydown", this.keyDownHandler);
     window.addEventListener("keyup", this.keyUpHandler);
+    window.addEventListener("blur", this.blurHandler);
+    document.addEventListener("visibilitychange", this.visibilityHandler);
+  }
+
+  private releaseHotkeys(): void {
+    const held = Array.from(this.heldHotkeys);
+    this.heldHotkeys.clear();
+    held.forEach((hotkey) => this.onHotkeyCallback?.(hotkey, "up"));
+
+    // Gamepads aren't polled while the page is in the background; a rewind
+    // button still held is picked up again by the next poll
+    if (this.rewindGamepadHeld.size > 0 && !held.includes("REWIND")) {
+      this.onHotkeyCallback?.("REWIND", "up");
+    }
+    this.rewindGamepadHeld.clear();
+  }
+
+  setupGamepadControls(): void {
+    if (!("getGamepads" in navigator)) return;
+
+    this.gamepadConnectedHandler = () => this.startGamepadPolling();
+    this.gamepadDisconnectedHandler = (e: GamepadEvent) => {
+      this.releaseGamepad(e.gamepad.index);
+    };
+
+    window.addEventListener("gamepadconnected", this.gamepadConnectedHandler);
+    window.addEventListener(
+      "gamepaddisconnected",
+      this.gamepadDisconnectedHandler
+    );
+
+    // Controllers plugged in before the page loaded only show up once polled
+    if (getConnectedGamepads().length > 0) {
+      this.startGamepadPolling();
+    }
+  }
+
+  private startGamepadPolling(): void {
+    if (this.gamepadPollId !== null) return;
+
+    const poll = () => {
+      this.pollGamepads();
+      this.gamepadPollId = requestAnimationFrame(poll);
+    };
+    this.gamepadPollId = requestAnimationFrame(poll);
+  }
+
+  private stopGamepadPolling(): void {
+    if (this.gamepadPollId !== null) {
+      cancelAnimationFrame(this.gamepadPollId);
+      this.gamepadPollId = null;
+    }
+  }
+
+  private getGamepadProfile(gamepadId: string): GamepadProfile {
+    let profile = this.gamepadProfiles.get(gamepadId);
+    if (!profile) {
+      profile = loadGamepadProfile(gamepadId);
+      this.gamepadProfiles.set(gamepadId, profile);
+    }
+    return profile;
+  }
+
+  private pollGamepads(): void {
+    const gamepads = getConnectedGamepads();
+    if (gamepads.length === 0) {
+      this.stopGamepadPolling();
+      return;
+    }
+
+    for (const gamepad of gamepads) {
+      const profile = this.getGamepadProfile(gamepad.id);
+      const pressed = readGamepadButtons(gamepad, profile);
+      const previous = this.gamepadHeld.get(gamepad.index) ?? new Set();
+
+      pressed.forEach((button) => {
+        if (!previous.has(button)) this.send(button, "down");
+      });
+      previous.forEach((button) => {
+        if (!pressed.has(button)) this.send(button, "up");
+      });
+
+      this.gamepadHeld.set(gamepad.index, pressed);
+      this.pollMacroButtons(gamepad, profile);
+      this.pollRewindButton(gamepad, profile);
+    }
+  }
+
+  // A rewind button that is also mapped to a game button stays a game button
+  private pollRewindButton(gamepad: Gamepad, profile: GamepadProfile): void {
+    const index = profile.rewindButton;
+    const mapped = Object.values(profile.mappings).includes(index ?? -1);
+    const pressed =
+      index !== undefined && !mapped && !!gamepad.buttons[index]?.pressed;
+    const wasPressed = this.rewindGamepadHeld.has(gamepad.index);
+    if (pressed === wasPressed) return;
+
+    if (pressed) {
+      this.rewindGamepadHeld.add(gamepad.index);
+    } else {
+      this.rewindGamepadHeld.delete(gamepad.index);
+    }
+    this.onHotkeyCallback?.("REWIND", pressed ? "down" : "up");
+  }
+
+  private pollMacroButtons(gamepad: Gamepad, profile: GamepadProfile): void {
+    if (this.macroGamepadButtons.size === 0) return;
+
+    const mapped = new Set(Object.values(profile.mappings));
+    const previous = this.macroGamepadHeld.get(gamepad.index) ?? new Set();
+    const pressed = new Set<number>();
+    this.macroGamepadButtons.forEach((macroId, index) => {
+      if (mapped.has(index) || !gamepad.buttons[index]?.pressed) return;
+      pressed.add(index);
+      if (!previous.has(index)) this.onMacroTriggerCallback?.(macroId);
+    });
+    this.macroGamepadHeld.set(gamepad.index, pressed);
+  }
+
+  private releaseGamepad(index: number): void {
+    this.gamepadHeld.get(index)?.forEach((button) => this.send(button, "up"));
+    this.gamepadHeld.delete(index);
+    this.macroGamepadHeld.delete(index);
+    if (this.rewindGamepadHeld.delete(index)) {
+      this.onHotkeyCallback?.("REWIND", "up");
+    }
   }
 
   sendButtonPress(button: InputButton, duration: number = 100): void {
     if (!this.sessionId) return;
 
-    this.socketManager.sendInput(this.sessionId, button, "down");
+    this.send(button, "down");
     setTimeout(() => {
       if (this.sessionId) {
-        this.socketManager.sendInput(this.sessionId, button, "up");
+        this.send(button, "up");
       }
     }, duration);
   }
@@ -561,5 +1774,30 @@ export class GameInputManager {
     if (this.keyUpHandler) {
       window.removeEventListener("keyup", this.keyUpHandler);
     }
+    if (this.blurHandler) {
+      window.removeEventListener("blur", this.blurHandler);
+    }
+    if (this.visibilityHandler) {
+      document.removeEventListener("visibilitychange", this.visibilityHandler);
+    }
+    // The session is ending, which resets the speed and rewind anyway
+    this.heldHotkeys.clear();
+    if (this.gamepadConnectedHandler) {
+      window.removeEventListener(
+        "gamepadconnected",
+        this.gamepadConnectedHandler
+      );
+    }
+    if (this.gamepadDisconnectedHandler) {
+      window.removeEventListener(
+        "gamepaddisconnected",
+        this.gamepadDisconnectedHandler
+      );
+    }
+
+    this.stopGamepadPolling();
+    Array.from(this.gamepadHeld.keys()).forEach((index) =>
+      this.releaseGamepad(index)
+    );
   }
 }
@@ -0,0 +1,12 @@
+import { DEFAULT_REWIND_SETTINGS, type RewindSettings } from "./play.api";
+import { loadUserSetting, saveUserSetting } from "./user-settings";
+
+const REWIND_STORAGE_KEY = "cloudgaming_rewind";
+
+export function loadRewindSettings(): RewindSettings {
+  return loadUserSetting(REWIND_STORAGE_KEY, DEFAULT_REWIND_SETTINGS);
+}
+
+export function saveRewindSettings(settings: RewindSettings): void {
+  saveUserSetting(REWIND_STORAGE_KEY, settings);
+}
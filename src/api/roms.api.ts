@@ -62,6 +62,9 @@ export interface Rom {
   filePath: string;
   imagePath?: string;
   description?: string;
+  // SHA-1 of the ROM file, hex encoded. Missing for ROMs uploaded before it
+  // was recorded.
+  checksum?: string;
   uploadedAt: string;
 }
 
@@ -71,6 +74,7 @@ export interface CreateRomDto {
   filePath: string;
   imagePath?: string;
   description?: string;
+  checksum?: string;
 }
 
 export interface UpdateRomDto {
@@ -115,6 +119,16 @@ export async function deleteRom(id: string): Promise<Rom> {
   });
 }
 
+export async function computeRomChecksum(romFile: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    await romFile.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 export async function uploadRom(
   romFile: File,
   imageFile?: File,
@@ -127,6 +141,10 @@ export async function uploadRom(
   if (data?.name) formData.append("name", data.name);
   if (data?.console) formData.append("console", data.console);
   if (data?.description) formData.append("description", data.description);
+  formData.append(
+    "checksum",
+    data?.checksum ?? (await computeRomChecksum(romFile))
+  );
 
   return fetchWithErrorHandling<Rom>(`${API_URL}/roms/upload`, {
     method: "POST",
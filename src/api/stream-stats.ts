@@ -0,0 +1,172 @@
+import { GBA_FRAME_INTERVAL_MS } from "./play.api";
+import type { WebRTCManager } from "./webrtc";
+
+export interface StreamStats {
+  mode: "webrtc" | "websocket";
+  timestamp: number;
+  fps?: number;
+  rttMs?: number;
+  jitterMs?: number;
+  packetsLost?: number;
+  framesDecoded?: number;
+  framesDropped?: number;
+  decodeTimeMs?: number;
+  bitrateKbps?: number;
+  // Audio jitter buffer, merged in from the audio player's port
+  audioBufferMs?: number;
+  audioUnderruns?: number;
+  audioOverflows?: number;
+}
+
+export interface StatsCollector {
+  start(callback: (stats: StreamStats) => void): void;
+  stop(): void;
+}
+
+const SAMPLE_INTERVAL_MS = 1000;
+
+interface InboundVideoSample {
+  timestamp: number;
+  bytesReceived: number;
+  framesDecoded: number;
+  totalDecodeTime: number;
+}
+
+// Samples RTCPeerConnection.getStats() once per second and turns the
+// cumulative counters into per-interval rates
+export class WebRTCStatsCollector implements StatsCollector {
+  private webrtcManager: WebRTCManager;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private previous: InboundVideoSample | null = null;
+
+  constructor(webrtcManager: WebRTCManager) {
+    this.webrtcManager = webrtcManager;
+  }
+
+  start(callback: (stats: StreamStats) => void): void {
+    this.stop();
+    this.intervalId = setInterval(async () => {
+      const stats = await this.sample();
+      if (stats) callback(stats);
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.previous = null;
+  }
+
+  private async sample(): Promise<StreamStats | null> {
+    const report = await this.webrtcManager.getStats();
+    if (!report) return null;
+
+    const stats: StreamStats = { mode: "webrtc", timestamp: Date.now() };
+
+    report.forEach((entry) => {
+      if (
+        entry.type === "candidate-pair" &&
+        entry.nominated &&
+        entry.state === "succeeded" &&
+        entry.currentRoundTripTime !== undefined
+      ) {
+        stats.rttMs = entry.currentRoundTripTime * 1000;
+      }
+
+      if (entry.type === "inbound-rtp" && entry.kind === "video") {
+        stats.jitterMs =
+          entry.jitter !== undefined ? entry.jitter * 1000 : undefined;
+        stats.packetsLost = entry.packetsLost;
+        stats.framesDecoded = entry.framesDecoded;
+        stats.framesDropped = entry.framesDropped;
+
+        const current: InboundVideoSample = {
+          timestamp: entry.timestamp,
+          bytesReceived: entry.bytesReceived ?? 0,
+          framesDecoded: entry.framesDecoded ?? 0,
+          totalDecodeTime: entry.totalDecodeTime ?? 0,
+        };
+
+        if (this.previous) {
+          const elapsedMs = current.timestamp - this.previous.timestamp;
+          const frames = current.framesDecoded - this.previous.framesDecoded;
+
+          if (elapsedMs > 0) {
+            stats.bitrateKbps =
+              ((current.bytesReceived - this.previous.bytesReceived) * 8) /
+              elapsedMs;
+            stats.fps = (frames * 1000) / elapsedMs;
+          }
+          if (frames > 0) {
+            stats.decodeTimeMs =
+              ((current.totalDecodeTime - this.previous.totalDecodeTime) *
+                1000) /
+              frames;
+          }
+        }
+
+        this.previous = current;
+      }
+    });
+
+    return stats;
+  }
+}
+
+// Frame rate and interarrival jitter for the websocket path, fed from
+// GameSocketManager.onFrame. Jitter uses the RFC 3550 running estimate
+// against the GBA frame interval.
+export class WebSocketFrameStats implements StatsCollector {
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private lastArrival: number | null = null;
+  private jitterMs = 0;
+  private framesInInterval = 0;
+  private totalFrames = 0;
+  private lastSampleAt = 0;
+
+  recordFrame(): void {
+    const now = performance.now();
+
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(
+        now - this.lastArrival - GBA_FRAME_INTERVAL_MS
+      );
+      this.jitterMs += (deviation - this.jitterMs) / 16;
+    }
+
+    this.lastArrival = now;
+    this.framesInInterval++;
+    this.totalFrames++;
+  }
+
+  start(callback: (stats: StreamStats) => void): void {
+    this.stop();
+    this.lastSampleAt = performance.now();
+    this.framesInInterval = 0;
+
+    this.intervalId = setInterval(() => {
+      const now = performance.now();
+      const elapsedMs = now - this.lastSampleAt;
+
+      callback({
+        mode: "websocket",
+        timestamp: Date.now(),
+        fps: elapsedMs > 0 ? (this.framesInInterval * 1000) / elapsedMs : 0,
+        jitterMs: this.jitterMs,
+        framesDecoded: this.totalFrames,
+      });
+
+      this.framesInInterval = 0;
+      this.lastSampleAt = now;
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
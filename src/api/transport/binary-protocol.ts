@@ -0,0 +1,220 @@
+/**
+ * Wire format of the binary stream transport: one raw WebSocket per session
+ * instead of the four Socket.IO namespaces, optionally with WebTransport
+ * datagrams for media. scripts/stream-server.mjs implements the server side.
+ *
+ * Server -> client binary messages start with a message type byte:
+ *   0x01 video: format u8, width u16, height u16, seq u32, then pixels
+ *   0x02 audio: an audio packet as read by parseAudioPacket
+ *   0x03 input applied: frame u32, mask u16, sent when the held buttons the
+ *        emulator applies change (see AppliedInput)
+ * All integers are little-endian. Client -> server binary messages are the
+ * input event, held-buttons and input state formats from input-protocol.ts.
+ *
+ * Control messages are JSON text frames, see ControlMessage. Requests carry
+ * a requestId that the server echoes in its reply, or in an error about it.
+ *
+ * WebTransport datagrams carry the same binary messages, split into
+ * fragments: message id u32, fragment index u16, fragment count u16, chunk.
+ */
+
+import {
+  isFrameSizeValid,
+  type FrameData,
+  type FrameFormat,
+} from "../play.api";
+import { parseAudioPacket, type AudioPacket } from "../audio-codecs";
+import type { AppliedInput } from "../input-protocol";
+
+export const MESSAGE_VIDEO = 0x01;
+export const MESSAGE_AUDIO = 0x02;
+export const MESSAGE_INPUT_APPLIED = 0x03;
+
+const VIDEO_HEADER_SIZE = 10;
+const INPUT_APPLIED_SIZE = 7;
+const FRAGMENT_HEADER_SIZE = 8;
+// Incomplete messages kept while waiting for their missing fragments
+const MAX_PENDING_MESSAGES = 8;
+
+const FRAME_FORMAT_IDS: Record<number, FrameFormat> = {
+  0: "png",
+  1: "webp",
+  2: "rgb565",
+  3: "rgba",
+};
+
+export type ControlMessage =
+  // client -> server
+  | {
+      type: "subscribe";
+      requestId: number;
+      sessionId: string;
+      frameFormats: string[];
+      audioCodecs: string[];
+      webTransport: boolean;
+    }
+  | { type: "save-state"; requestId: number }
+  | { type: "load-state"; requestId: number; stateData: string }
+  // server -> client
+  | { type: "subscribed"; requestId: number; webTransportUrl?: string }
+  | {
+      type: "save-state-result";
+      requestId: number;
+      success: boolean;
+      stateData?: string;
+      thumbnail?: string;
+      // Emulator frame the state was captured on
+      frame?: number;
+      error?: string;
+    }
+  | {
+      type: "load-state-result";
+      requestId: number;
+      success: boolean;
+      error?: string;
+    }
+  // requestId is set when the error answers a request
+  | { type: "error"; requestId?: number; error: string };
+
+// Null unless the text is a JSON object with a string type
+export function parseControlMessage(text: string): ControlMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (
+    typeof message !== "object" ||
+    message === null ||
+    typeof (message as { type?: unknown }).type !== "string"
+  ) {
+    return null;
+  }
+  return message as ControlMessage;
+}
+
+export type StreamMessage =
+  | { type: "video"; frame: FrameData }
+  | { type: "audio"; packet: AudioPacket }
+  | { type: "input-applied"; input: AppliedInput };
+
+// Returns null for anything malformed or truncated, so a bad message from
+// the server is dropped instead of throwing in the socket handlers
+export function parseStreamMessage(buffer: ArrayBuffer): StreamMessage | null {
+  if (buffer.byteLength < 1) return null;
+  const view = new DataView(buffer);
+
+  try {
+    switch (view.getUint8(0)) {
+      case MESSAGE_VIDEO: {
+        if (buffer.byteLength < VIDEO_HEADER_SIZE) return null;
+        const format = FRAME_FORMAT_IDS[view.getUint8(1)];
+        if (!format) return null;
+
+        const width = view.getUint16(2, true);
+        const height = view.getUint16(4, true);
+        const data = buffer.slice(VIDEO_HEADER_SIZE);
+        if (!isFrameSizeValid(format, data.byteLength, width, height)) {
+          return null;
+        }
+
+        return {
+          type: "video",
+          frame: {
+            format,
+            width,
+            height,
+            seq: view.getUint32(6, true),
+            data,
+          },
+        };
+      }
+
+      case MESSAGE_AUDIO:
+        return { type: "audio", packet: parseAudioPacket(buffer, 1) };
+
+      case MESSAGE_INPUT_APPLIED:
+        if (buffer.byteLength < INPUT_APPLIED_SIZE) return null;
+        return {
+          type: "input-applied",
+          input: {
+            frame: view.getUint32(1, true),
+            mask: view.getUint16(5, true),
+          },
+        };
+
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.warn("[Binary] Dropping malformed stream message:", error);
+    return null;
+  }
+}
+
+interface PendingMessage {
+  chunks: (Uint8Array | undefined)[];
+  received: number;
+  size: number;
+}
+
+// Reassembles datagram fragments. Datagrams can be lost or reordered, so a
+// message is dropped once too many newer ones are pending.
+export class DatagramReassembler {
+  private pending = new Map<number, PendingMessage>();
+
+  push(datagram: Uint8Array): ArrayBuffer | null {
+    if (datagram.byteLength < FRAGMENT_HEADER_SIZE) return null;
+
+    const view = new DataView(
+      datagram.buffer,
+      datagram.byteOffset,
+      datagram.byteLength
+    );
+    const messageId = view.getUint32(0, true);
+    const index = view.getUint16(4, true);
+    const count = view.getUint16(6, true);
+    const chunk = datagram.subarray(FRAGMENT_HEADER_SIZE);
+
+    if (count === 1) {
+      return chunk.slice().buffer;
+    }
+    if (index >= count) return null;
+
+    let message = this.pending.get(messageId);
+    if (!message) {
+      message = { chunks: new Array(count), received: 0, size: 0 };
+      this.pending.set(messageId, message);
+      this.evictOldest();
+    }
+    if (message.chunks[index]) return null;
+
+    message.chunks[index] = chunk;
+    message.received++;
+    message.size += chunk.byteLength;
+    if (message.received < count) return null;
+
+    this.pending.delete(messageId);
+    const output = new Uint8Array(message.size);
+    let offset = 0;
+    for (const part of message.chunks) {
+      output.set(part!, offset);
+      offset += part!.byteLength;
+    }
+    return output.buffer;
+  }
+
+  clear(): void {
+    this.pending.clear();
+  }
+
+  // Map iteration follows insertion order, so the first key is the oldest
+  private evictOldest(): void {
+    while (this.pending.size > MAX_PENDING_MESSAGES) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest === undefined) return;
+      this.pending.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,392 @@
+import {
+  getReconnectOptions,
+  getSupportedFrameFormats,
+  type StreamMode,
+} from "../play.api";
+import { getSupportedAudioCodecs } from "../audio-codecs";
+import { getStreamSocketUrl } from "../webrtc";
+import {
+  encodeHeldButtons,
+  encodeInput,
+  encodeInputState,
+  type AppliedInput,
+  type HeldButtons,
+  type InputEvent,
+  type InputStateFrame,
+} from "../input-protocol";
+import { WebSocketFrameStats, type StatsCollector } from "../stream-stats";
+import {
+  DatagramReassembler,
+  parseControlMessage,
+  parseStreamMessage,
+  type ControlMessage,
+} from "./binary-protocol";
+import type {
+  SaveStateResult,
+  StreamTransport,
+  TransportAudio,
+  TransportVideo,
+} from "./types";
+
+const CONNECT_TIMEOUT_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Binary transport: video, audio, input and save states multiplexed on one
+// raw WebSocket (see binary-protocol.ts). When the server offers it, media
+// also arrives as WebTransport datagrams, which skip TCP head-of-line
+// blocking.
+export class BinaryStreamTransport implements StreamTransport {
+  readonly mode: StreamMode = "binary";
+
+  private socket: WebSocket | null = null;
+  private webTransport: WebTransport | null = null;
+  private reassembler = new DatagramReassembler();
+  private frameStats = new WebSocketFrameStats();
+  private pendingRequests = new Map<
+    number,
+    (reply: ControlMessage | null) => void
+  >();
+  private nextRequestId = 1;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private _sessionId: string | null = null;
+
+  private onVideoCallback?: (video: TransportVideo) => void;
+  private onAudioCallback?: (audio: TransportAudio) => void;
+  private onFailedCallback?: () => void;
+  private onInputAppliedCallback?: (input: AppliedInput) => void;
+
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
+  connect(): Promise<boolean> {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve(true);
+    }
+    if (!this.socket) {
+      this.openSocket();
+    }
+
+    const socket = this.socket!;
+    return new Promise((resolve) => {
+      const done = (connected: boolean) => {
+        clearTimeout(timer);
+        socket.removeEventListener("open", onOpen);
+        socket.removeEventListener("close", onClose);
+        resolve(connected);
+      };
+      const onOpen = () => done(true);
+      const onClose = () => done(false);
+      const timer = setTimeout(() => done(false), CONNECT_TIMEOUT_MS);
+
+      socket.addEventListener("open", onOpen);
+      socket.addEventListener("close", onClose);
+    });
+  }
+
+  async subscribe(sessionId: string): Promise<boolean> {
+    this._sessionId = sessionId;
+    if (!(await this.connect())) return false;
+
+    const requestId = this.nextRequestId++;
+    const reply = await this.request(requestId, {
+      type: "subscribe",
+      requestId,
+      sessionId,
+      frameFormats: getSupportedFrameFormats(),
+      audioCodecs: getSupportedAudioCodecs(),
+      webTransport: typeof WebTransport !== "undefined",
+    });
+    if (reply?.type !== "subscribed") {
+      console.error("[Binary] Failed to subscribe to session");
+      return false;
+    }
+
+    // A resubscribe after a reconnect replaces the previous session's
+    // datagrams rather than reading both
+    this.closeWebTransport();
+    if (reply.webTransportUrl && typeof WebTransport !== "undefined") {
+      this.openWebTransport(reply.webTransportUrl);
+    }
+    return true;
+  }
+
+  onVideo(callback: (video: TransportVideo) => void): void {
+    this.onVideoCallback = callback;
+  }
+
+  onAudio(callback: (audio: TransportAudio) => void): void {
+    this.onAudioCallback = callback;
+  }
+
+  onFailed(callback: () => void): void {
+    this.onFailedCallback = callback;
+  }
+
+  onInputApplied(callback: (input: AppliedInput) => void): void {
+    this.onInputAppliedCallback = callback;
+  }
+
+  // Input always goes over the WebSocket: a lost "up" datagram would leave
+  // the button held on the server
+  sendInput(event: InputEvent): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+
+    const buffer = encodeInput(event);
+    if (buffer) {
+      this.socket.send(buffer);
+    }
+  }
+
+  sendHeldButtons(held: HeldButtons): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(encodeHeldButtons(held));
+  }
+
+  sendInputState(state: InputStateFrame): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(encodeInputState(state));
+  }
+
+  async saveState(): Promise<SaveStateResult | null> {
+    const requestId = this.nextRequestId++;
+    const reply = await this.request(requestId, {
+      type: "save-state",
+      requestId,
+    });
+
+    if (
+      reply?.type !== "save-state-result" ||
+      !reply.success ||
+      !reply.stateData
+    ) {
+      console.error("[Binary] Failed to save state:", reply ?? "timeout");
+      return null;
+    }
+    return {
+      stateData: reply.stateData,
+      thumbnail: reply.thumbnail ?? null,
+      frame: reply.frame,
+    };
+  }
+
+  async loadState(stateData: string): Promise<boolean> {
+    const requestId = this.nextRequestId++;
+    const reply = await this.request(requestId, {
+      type: "load-state",
+      requestId,
+      stateData,
+    });
+
+    if (reply?.type !== "load-state-result" || !reply.success) {
+      console.error("[Binary] Failed to load state:", reply ?? "timeout");
+      return false;
+    }
+    return true;
+  }
+
+  getStatsCollector(): StatsCollector {
+    return this.frameStats;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.frameStats.stop();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.failPendingRequests();
+    this.closeWebTransport();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+  }
+
+  private openSocket(): void {
+    const socket = new WebSocket(getStreamSocketUrl());
+    socket.binaryType = "arraybuffer";
+
+    socket.onmessage = (event) => {
+      if (typeof event.data === "string") {
+        this.handleControlMessage(event.data);
+      } else {
+        this.handleStreamMessage(event.data as ArrayBuffer);
+      }
+    };
+
+    socket.onerror = () => {
+      console.warn("[Binary] WebSocket error");
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.failPendingRequests();
+
+      if (!this.closed && this._sessionId) {
+        this.scheduleReconnect();
+      }
+    };
+
+    this.socket = socket;
+  }
+
+  // Same backoff as GameSocketManager; the session is subscribed again once
+  // the socket is back
+  private scheduleReconnect(): void {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = getReconnectOptions();
+
+    if (this.reconnectAttempt >= maxAttempts) {
+      console.warn("[Binary] Reconnect attempts exhausted");
+      this.onFailedCallback?.();
+      return;
+    }
+
+    const delay = Math.min(
+      maxDelayMs,
+      baseDelayMs * Math.pow(2, this.reconnectAttempt)
+    );
+    this.reconnectAttempt++;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.closed || !this._sessionId) return;
+
+      if (await this.subscribe(this._sessionId)) {
+        this.reconnectAttempt = 0;
+      } else {
+        // Closing triggers the next attempt from onclose
+        this.socket?.close();
+      }
+    }, delay);
+  }
+
+  private request(
+    requestId: number,
+    message: ControlMessage
+  ): Promise<ControlMessage | null> {
+    const socket = this.socket;
+    if (socket?.readyState !== WebSocket.OPEN) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        resolve(null);
+      }, REQUEST_TIMEOUT_MS);
+
+      this.pendingRequests.set(requestId, (reply) => {
+        clearTimeout(timer);
+        resolve(reply);
+      });
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  private failPendingRequests(): void {
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    pending.forEach((resolve) => resolve(null));
+  }
+
+  private handleControlMessage(text: string): void {
+    const message = parseControlMessage(text);
+    if (!message) {
+      console.warn("[Binary] Ignoring malformed control message");
+      return;
+    }
+
+    if (message.type === "error") {
+      console.error("[Binary] Server error:", message.error);
+    }
+
+    // An error about a request answers it, so the caller doesn't wait for
+    // the timeout
+    if (typeof message.requestId === "number") {
+      const resolve = this.pendingRequests.get(message.requestId);
+      if (resolve) {
+        this.pendingRequests.delete(message.requestId);
+        resolve(message);
+      }
+    }
+  }
+
+  private handleStreamMessage(buffer: ArrayBuffer): void {
+    if (this.closed) return;
+
+    const message = parseStreamMessage(buffer);
+    if (!message) return;
+
+    if (message.type === "video") {
+      this.frameStats.recordFrame();
+      this.onVideoCallback?.({ kind: "frame", frame: message.frame });
+    } else if (message.type === "input-applied") {
+      this.onInputAppliedCallback?.(message.input);
+    } else {
+      const { packet } = message;
+      this.onAudioCallback?.({
+        kind: "packet",
+        audio: {
+          data: packet.payload.slice().buffer,
+          sampleRate: packet.sampleRate,
+          channels: packet.channels,
+          codec: packet.codec,
+        },
+      });
+    }
+  }
+
+  private closeWebTransport(): void {
+    const transport = this.webTransport;
+    this.webTransport = null;
+    this.reassembler.clear();
+    try {
+      transport?.close();
+    } catch {
+      // Already closed or failed to connect
+    }
+  }
+
+  // Runs until the WebTransport session closes or is replaced; the
+  // WebSocket keeps carrying media if it never comes up
+  private async openWebTransport(url: string): Promise<void> {
+    let transport: WebTransport | null = null;
+
+    try {
+      transport = new WebTransport(url);
+      // Tracked before it is ready so closeWebTransport can cancel it
+      this.webTransport = transport;
+      await transport.ready;
+      if (this.closed || this.webTransport !== transport) {
+        transport.close();
+        return;
+      }
+
+      const reader = transport.datagrams.readable.getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const message = this.reassembler.push(value as Uint8Array);
+        if (message) {
+          this.handleStreamMessage(message);
+        }
+      }
+    } catch (error) {
+      if (!this.closed && this.webTransport === transport) {
+        console.warn("[Binary] WebTransport unavailable:", error);
+      }
+    } finally {
+      if (transport && this.webTransport === transport) {
+        this.webTransport = null;
+        this.reassembler.clear();
+      }
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import type { GameSocketManager, StreamMode } from "../play.api";
+import type {
+  AppliedInput,
+  HeldButtons,
+  InputEvent,
+  InputStateFrame,
+} from "../input-protocol";
+import type { WebRTCManager } from "../webrtc";
+import type { StatsCollector, StreamStats } from "../stream-stats";
+import type {
+  SaveStateResult,
+  StreamTransport,
+  TransportAudio,
+  TransportVideo,
+} from "./types";
+import { WebRTCTransport } from "./webrtc-transport";
+import { WebSocketTransport } from "./websocket-transport";
+
+export type FailoverPath = "webrtc" | "websocket";
+
+const HEALTH_CHECK_INTERVAL_MS = 500;
+// No WebRTC frame decoded for this long counts as a stall
+const STALL_TIMEOUT_MS = 1000;
+// After a failover, WebRTC must decode steadily this long before playback
+// moves back, so a flaky link doesn't flip paths every second
+const RECOVERY_HOLD_MS = 3000;
+// Delay before negotiating a new peer connection once ICE restarts gave up
+const RENEGOTIATE_DELAY_MS = 10000;
+
+// "both" mode: WebRTC is the primary path and the websocket video/audio
+// sockets stay subscribed as a warm standby. Only the active path's media is
+// forwarded; playback moves to the standby when WebRTC stalls or its peer
+// connection fails, and back once it decodes again, within the same session.
+export class FailoverTransport implements StreamTransport {
+  readonly mode: StreamMode = "both";
+
+  private manager: WebRTCManager;
+  private socketManager: GameSocketManager;
+  private primary: WebRTCTransport;
+  private standby: WebSocketTransport;
+  private statsCollector: FailoverStatsCollector;
+  private activePath: FailoverPath = "websocket";
+  private hasBeenPrimary = false;
+  private closed = false;
+
+  // Last tracks from the peer connection, attached again on failback
+  private videoTrack: MediaStream | null = null;
+  private audioTrack: MediaStream | null = null;
+
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private renegotiateTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastFramesDecoded = 0;
+  private lastProgressAt = 0;
+  private healthySince: number | null = null;
+  // A paused emulator decodes no frames, which isn't a stall
+  private paused = false;
+
+  private onVideoCallback?: (video: TransportVideo) => void;
+  private onAudioCallback?: (audio: TransportAudio) => void;
+  private onPathChangeCallback?: (path: FailoverPath) => void;
+
+  constructor(manager: WebRTCManager, socketManager: GameSocketManager) {
+    this.manager = manager;
+    this.socketManager = socketManager;
+    this.standby = new WebSocketTransport(socketManager, manager);
+    this.primary = new WebRTCTransport(manager, this.standby);
+    this.statsCollector = new FailoverStatsCollector(
+      this.primary.getStatsCollector(),
+      this.standby.getStatsCollector(),
+      () => this.activePath
+    );
+
+    this.primary.onVideo((video) => {
+      if (video.kind === "track") this.videoTrack = video.stream;
+      if (this.activePath === "webrtc") this.onVideoCallback?.(video);
+    });
+
+    this.primary.onAudio((audio) => {
+      if (audio.kind === "track") this.audioTrack = audio.stream;
+      if (this.activePath === "webrtc") this.onAudioCallback?.(audio);
+    });
+
+    this.standby.onVideo((video) => {
+      if (this.activePath === "websocket") this.onVideoCallback?.(video);
+    });
+
+    this.standby.onAudio((audio) => {
+      if (this.activePath === "websocket") this.onAudioCallback?.(audio);
+    });
+
+    // ICE restarts are exhausted: stay on the standby and negotiate a fresh
+    // peer connection for the same session
+    this.primary.onFailed(() => {
+      if (this.closed) return;
+      this.activate("websocket", "peer connection failed");
+      this.scheduleRenegotiate();
+    });
+  }
+
+  get sessionId(): string | null {
+    return this.standby.sessionId;
+  }
+
+  get path(): FailoverPath {
+    return this.activePath;
+  }
+
+  onPathChange(callback: (path: FailoverPath) => void): void {
+    this.onPathChangeCallback = callback;
+  }
+
+  // The websocket path is the one playback can't do without
+  async connect(): Promise<boolean> {
+    const [standbyConnected] = await Promise.all([
+      this.standby.connect(),
+      this.primary.connect(),
+    ]);
+    return standbyConnected;
+  }
+
+  async subscribe(sessionId: string): Promise<boolean> {
+    this.stopHealthCheck();
+
+    // Also subscribes the standby, which is the primary's input fallback
+    const primarySubscribed = await this.primary.subscribe(sessionId);
+    if (!primarySubscribed) {
+      console.warn("[Transport] WebRTC unavailable, playing from websocket");
+      this.scheduleRenegotiate();
+    }
+    this.startHealthCheck();
+
+    return primarySubscribed || this.socketManager.isConnected();
+  }
+
+  onVideo(callback: (video: TransportVideo) => void): void {
+    this.onVideoCallback = callback;
+  }
+
+  onAudio(callback: (audio: TransportAudio) => void): void {
+    this.onAudioCallback = callback;
+  }
+
+  // WebRTC failures are absorbed by the standby, and the websocket sockets
+  // reconnect on their own
+  onFailed(): void {}
+
+  onInputApplied(callback: (input: AppliedInput) => void): void {
+    this.standby.onInputApplied(callback);
+  }
+
+  // The WebRTC transport already falls back to the websocket until its data
+  // channel is open
+  sendInput(event: InputEvent): void {
+    this.primary.sendInput(event);
+  }
+
+  sendHeldButtons(held: HeldButtons): void {
+    this.primary.sendHeldButtons(held);
+  }
+
+  sendInputState(state: InputStateFrame): void {
+    this.primary.sendInputState(state);
+  }
+
+  saveState(): Promise<SaveStateResult | null> {
+    return this.primary.saveState();
+  }
+
+  loadState(stateData: string): Promise<boolean> {
+    return this.primary.loadState(stateData);
+  }
+
+  getStatsCollector(): StatsCollector {
+    return this.statsCollector;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.stopHealthCheck();
+    this.statsCollector.stop();
+    if (this.renegotiateTimer) {
+      clearTimeout(this.renegotiateTimer);
+      this.renegotiateTimer = null;
+    }
+    // Also closes the standby, which is the primary's input fallback
+    await this.primary.close();
+  }
+
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  private startHealthCheck(): void {
+    this.lastFramesDecoded = 0;
+    this.lastProgressAt = performance.now();
+    this.healthySince = null;
+    this.healthTimer = setInterval(
+      () => this.checkHealth(),
+      HEALTH_CHECK_INTERVAL_MS
+    );
+  }
+
+  private stopHealthCheck(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private async checkHealth(): Promise<void> {
+    const framesDecoded = await this.readFramesDecoded();
+    if (this.closed) return;
+
+    const now = performance.now();
+    if (framesDecoded !== null && framesDecoded > this.lastFramesDecoded) {
+      this.lastFramesDecoded = framesDecoded;
+      this.lastProgressAt = now;
+      this.healthySince ??= now;
+    } else if (framesDecoded !== null) {
+      // A new peer connection starts counting from zero again
+      this.lastFramesDecoded = framesDecoded;
+    }
+
+    if (this.paused) {
+      // The stall window starts over once the emulator resumes
+      this.lastProgressAt = now;
+    }
+
+    const connected = this.manager.isConnected();
+    const stalled = !connected || now - this.lastProgressAt > STALL_TIMEOUT_MS;
+    if (stalled) {
+      this.healthySince = null;
+    }
+
+    if (this.activePath === "webrtc") {
+      if (stalled) {
+        this.activate(
+          "websocket",
+          connected ? "video stalled" : "peer connection lost"
+        );
+      }
+      return;
+    }
+
+    // The first switch happens as soon as WebRTC delivers frames
+    const holdMs = this.hasBeenPrimary ? RECOVERY_HOLD_MS : 0;
+    if (
+      !stalled &&
+      this.healthySince !== null &&
+      now - this.healthySince >= holdMs
+    ) {
+      this.activate("webrtc", "video flowing");
+    }
+  }
+
+  private async readFramesDecoded(): Promise<number | null> {
+    const report = await this.manager.getStats();
+    if (!report) return null;
+
+    let framesDecoded: number | null = null;
+    report.forEach((entry) => {
+      if (entry.type === "inbound-rtp" && entry.kind === "video") {
+        framesDecoded = entry.framesDecoded ?? 0;
+      }
+    });
+    return framesDecoded;
+  }
+
+  private activate(path: FailoverPath, reason: string): void {
+    if (this.activePath === path) return;
+
+    console.warn(`[Transport] Switching to ${path} (${reason})`);
+    this.activePath = path;
+
+    if (path === "webrtc") {
+      this.hasBeenPrimary = true;
+      this.onVideoCallback?.({ kind: "track", stream: this.videoTrack });
+      if (this.audioTrack) {
+        this.onAudioCallback?.({ kind: "track", stream: this.audioTrack });
+      }
+    } else {
+      this.onVideoCallback?.({ kind: "track", stream: null });
+      if (this.audioTrack) {
+        this.onAudioCallback?.({ kind: "track", stream: null });
+      }
+    }
+
+    this.onPathChangeCallback?.(path);
+  }
+
+  private scheduleRenegotiate(): void {
+    if (this.renegotiateTimer || this.closed) return;
+
+    this.renegotiateTimer = setTimeout(async () => {
+      this.renegotiateTimer = null;
+      const sessionId = this.sessionId;
+      if (this.closed || !sessionId) return;
+
+      await this.manager.closeSession();
+      this.videoTrack = null;
+      this.audioTrack = null;
+      if (!(await this.manager.createSession(sessionId))) {
+        this.scheduleRenegotiate();
+      }
+    }, RENEGOTIATE_DELAY_MS);
+  }
+}
+
+// Runs both paths' collectors and reports the active one's samples, so the
+// overlay's mode shows which path is playing
+class FailoverStatsCollector implements StatsCollector {
+  private primary: StatsCollector;
+  private standby: StatsCollector;
+  private getActivePath: () => FailoverPath;
+
+  constructor(
+    primary: StatsCollector,
+    standby: StatsCollector,
+    getActivePath: () => FailoverPath
+  ) {
+    this.primary = primary;
+    this.standby = standby;
+    this.getActivePath = getActivePath;
+  }
+
+  start(callback: (stats: StreamStats) => void): void {
+    this.primary.start((stats) => {
+      if (this.getActivePath() === "webrtc") callback(stats);
+    });
+    this.standby.start((stats) => {
+      if (this.getActivePath() === "websocket") callback(stats);
+    });
+  }
+
+  stop(): void {
+    this.primary.stop();
+    this.standby.stop();
+  }
+}
@@ -0,0 +1,49 @@
+// Transport Module - Re-exports all stream transports
+
+import type { GameSocketManager, StreamMode } from "../play.api";
+import type { WebRTCManager } from "../webrtc";
+import type { StreamTransport } from "./types";
+import { BinaryStreamTransport } from "./binary-transport";
+import { FailoverTransport } from "./failover-transport";
+import { WebRTCTransport } from "./webrtc-transport";
+import { WebSocketTransport } from "./websocket-transport";
+
+// Types
+export type {
+  StreamTransport,
+  TransportVideo,
+  TransportAudio,
+  SaveStateResult,
+} from "./types";
+export type { FailoverPath } from "./failover-transport";
+
+// Classes
+export { WebSocketTransport } from "./websocket-transport";
+export { WebRTCTransport } from "./webrtc-transport";
+export { BinaryStreamTransport } from "./binary-transport";
+export { FailoverTransport } from "./failover-transport";
+
+// Long-lived connections shared by every transport of a page
+export interface TransportConnections {
+  socketManager: GameSocketManager;
+  signaling: WebRTCManager;
+}
+
+export function createStreamTransport(
+  mode: StreamMode,
+  { socketManager, signaling }: TransportConnections
+): StreamTransport {
+  switch (mode) {
+    case "webrtc":
+      return new WebRTCTransport(
+        signaling,
+        new WebSocketTransport(socketManager, signaling)
+      );
+    case "both":
+      return new FailoverTransport(signaling, socketManager);
+    case "websocket":
+      return new WebSocketTransport(socketManager, signaling);
+    case "binary":
+      return new BinaryStreamTransport();
+  }
+}
@@ -0,0 +1,50 @@
+import type { WebRTCManager } from "../webrtc";
+import type { SaveStateResult } from "./types";
+
+// The server handles save-state and load-state on the /webrtc signaling
+// namespace, so every transport goes through the signaling socket for them
+
+export async function requestSaveState(
+  signaling: WebRTCManager,
+  sessionId: string
+): Promise<SaveStateResult | null> {
+  if (!(await signaling.ensureConnected())) {
+    console.error("[Transport] Signaling socket not connected, cannot save");
+    return null;
+  }
+
+  return new Promise((resolve) => {
+    signaling.saveState(sessionId, (result) => {
+      if (result.success && result.stateData) {
+        resolve({
+          stateData: result.stateData,
+          thumbnail: result.thumbnail ?? null,
+          frame: result.frame,
+        });
+      } else {
+        console.error("[Transport] Failed to save state:", result.error);
+        resolve(null);
+      }
+    });
+  });
+}
+
+export async function requestLoadState(
+  signaling: WebRTCManager,
+  sessionId: string,
+  stateData: string
+): Promise<boolean> {
+  if (!(await signaling.ensureConnected())) {
+    console.error("[Transport] Signaling socket not connected, cannot load");
+    return false;
+  }
+
+  return new Promise((resolve) => {
+    signaling.loadState(sessionId, stateData, (result) => {
+      if (!result.success) {
+        console.error("[Transport] Failed to load state:", result.error);
+      }
+      resolve(result.success);
+    });
+  });
+}
@@ -0,0 +1,74 @@
+// Stream Transport Types
+
+import type {
+  AudioData as AudioPacketData,
+  FrameData,
+  StreamMode,
+} from "../play.api";
+import type {
+  AppliedInput,
+  HeldButtons,
+  InputEvent,
+  InputStateFrame,
+} from "../input-protocol";
+import type { AudioData as DecodedAudioData } from "../webrtc/types";
+import type { StatsCollector } from "../stream-stats";
+
+// Video as delivered by a transport: encoded frames for the canvas manager,
+// or a media track for the WebRTC video renderer. A null track detaches the
+// previous one.
+export type TransportVideo =
+  | { kind: "frame"; frame: FrameData }
+  | { kind: "track"; stream: MediaStream | null };
+
+// Audio as delivered by a transport: encoded packets for GameAudioManager,
+// already decoded PCM, or a media track for the WebRTC audio player
+export type TransportAudio =
+  | { kind: "packet"; audio: AudioPacketData }
+  | { kind: "pcm"; audio: DecodedAudioData }
+  | { kind: "track"; stream: MediaStream | null };
+
+export interface SaveStateResult {
+  // Base64 encoded emulator state and PNG thumbnail
+  stateData: string;
+  thumbnail: string | null;
+  // Emulator frame the state was captured on (the video frames' seq
+  // counter), when the server reports it
+  frame?: number;
+}
+
+// Media, input and save state path for one game session. PlayPage talks to
+// the active transport only, and swaps it when the stream mode changes.
+export interface StreamTransport {
+  readonly mode: StreamMode;
+  // Session passed to subscribe, if any
+  readonly sessionId: string | null;
+
+  // Resolves once the underlying connection is usable, false on timeout
+  connect(): Promise<boolean>;
+  // Starts streaming the given session, false if the transport can't
+  subscribe(sessionId: string): Promise<boolean>;
+
+  onVideo(callback: (video: TransportVideo) => void): void;
+  onAudio(callback: (audio: TransportAudio) => void): void;
+  // The transport gave up after losing its connection
+  onFailed(callback: () => void): void;
+  // Held buttons as the server applied them, on transports whose server
+  // reports it. Sent whenever they change.
+  onInputApplied(callback: (input: AppliedInput) => void): void;
+
+  sendInput(event: InputEvent): void;
+  // Periodic snapshot of the held buttons, dropped if it can't be sent
+  sendHeldButtons(held: HeldButtons): void;
+  // Full pad state, for sessions that negotiated the "state" encoding
+  sendInputState(state: InputStateFrame): void;
+  saveState(): Promise<SaveStateResult | null>;
+  // stateData is base64 encoded
+  loadState(stateData: string): Promise<boolean>;
+
+  getStatsCollector(): StatsCollector;
+
+  // Stops delivering media and tears down what the transport set up.
+  // Callbacks registered on a closed transport are never called again.
+  close(): Promise<void>;
+}
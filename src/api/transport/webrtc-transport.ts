@@ -0,0 +1,150 @@
+import type { StreamMode } from "../play.api";
+import type {
+  AppliedInput,
+  HeldButtons,
+  InputEvent,
+  InputStateFrame,
+} from "../input-protocol";
+import type { WebRTCManager } from "../webrtc";
+import { WebRTCStatsCollector, type StatsCollector } from "../stream-stats";
+import { requestLoadState, requestSaveState } from "./state-channel";
+import type {
+  SaveStateResult,
+  StreamTransport,
+  TransportAudio,
+  TransportVideo,
+} from "./types";
+import type { WebSocketTransport } from "./websocket-transport";
+
+// WebRTC transport: media tracks (or PCM over the audio data channel) from
+// the peer connection, input over the binary data channel. The websocket
+// transport carries input until the data channel opens; its media is not
+// forwarded (see FailoverTransport for "both" mode).
+export class WebRTCTransport implements StreamTransport {
+  readonly mode: StreamMode = "webrtc";
+
+  private manager: WebRTCManager;
+  private fallback: WebSocketTransport;
+  private statsCollector: WebRTCStatsCollector;
+  private closed = false;
+  private _sessionId: string | null = null;
+
+  private onVideoCallback?: (video: TransportVideo) => void;
+  private onAudioCallback?: (audio: TransportAudio) => void;
+  private onFailedCallback?: () => void;
+
+  constructor(manager: WebRTCManager, fallback: WebSocketTransport) {
+    this.manager = manager;
+    this.fallback = fallback;
+    this.statsCollector = new WebRTCStatsCollector(manager);
+
+    manager.onVideoTrack((stream) => {
+      if (this.closed) return;
+      this.onVideoCallback?.({ kind: "track", stream });
+    });
+
+    manager.onAudioTrack((stream) => {
+      if (this.closed) return;
+      this.onAudioCallback?.({ kind: "track", stream });
+    });
+
+    manager.onAudioData((audio) => {
+      if (this.closed) return;
+      this.onAudioCallback?.({ kind: "pcm", audio });
+    });
+
+    manager.onError((error) => {
+      console.error("[WebRTC] Error:", error);
+    });
+
+    manager.onRecovering((attempt) => {
+      console.warn(`[WebRTC] Connection lost, ICE restart attempt ${attempt}`);
+    });
+
+    manager.onRecoveryFailed(() => {
+      if (this.closed) return;
+      this.onFailedCallback?.();
+    });
+  }
+
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
+  connect(): Promise<boolean> {
+    return this.manager.ensureConnected();
+  }
+
+  async subscribe(sessionId: string): Promise<boolean> {
+    this._sessionId = sessionId;
+    await this.fallback.subscribe(sessionId);
+
+    if (!(await this.manager.ensureConnected())) {
+      console.error("[WebRTC] Signaling socket not connected");
+      return false;
+    }
+    return this.manager.createSession(sessionId);
+  }
+
+  onVideo(callback: (video: TransportVideo) => void): void {
+    this.onVideoCallback = callback;
+  }
+
+  onAudio(callback: (audio: TransportAudio) => void): void {
+    this.onAudioCallback = callback;
+  }
+
+  onFailed(callback: () => void): void {
+    this.onFailedCallback = callback;
+  }
+
+  // Reported on the websocket input socket, whichever path carried the input
+  onInputApplied(callback: (input: AppliedInput) => void): void {
+    this.fallback.onInputApplied(callback);
+  }
+
+  sendInput(event: InputEvent): void {
+    if (this.manager.isDataChannelReady()) {
+      this.manager.sendInput(event);
+    } else {
+      this.fallback.sendInput(event);
+    }
+  }
+
+  sendHeldButtons(held: HeldButtons): void {
+    if (this.manager.isDataChannelReady()) {
+      this.manager.sendHeldButtons(held);
+    } else {
+      this.fallback.sendHeldButtons(held);
+    }
+  }
+
+  sendInputState(state: InputStateFrame): void {
+    if (this.manager.isDataChannelReady()) {
+      this.manager.sendInputState(state);
+    } else {
+      this.fallback.sendInputState(state);
+    }
+  }
+
+  async saveState(): Promise<SaveStateResult | null> {
+    if (!this.sessionId) return null;
+    return requestSaveState(this.manager, this.sessionId);
+  }
+
+  async loadState(stateData: string): Promise<boolean> {
+    if (!this.sessionId) return false;
+    return requestLoadState(this.manager, this.sessionId, stateData);
+  }
+
+  getStatsCollector(): StatsCollector {
+    return this.statsCollector;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.statsCollector.stop();
+    await this.fallback.close();
+    await this.manager.closeSession();
+  }
+}
@@ -0,0 +1,123 @@
+import type { GameSocketManager, StreamMode } from "../play.api";
+import type {
+  AppliedInput,
+  HeldButtons,
+  InputEvent,
+  InputStateFrame,
+} from "../input-protocol";
+import type { WebRTCManager } from "../webrtc";
+import { WebSocketFrameStats, type StatsCollector } from "../stream-stats";
+import { requestLoadState, requestSaveState } from "./state-channel";
+import type {
+  SaveStateResult,
+  StreamTransport,
+  TransportAudio,
+  TransportVideo,
+} from "./types";
+
+// Socket.IO transport: frames and audio packets on the /video and /audio
+// namespaces, input on /input. The sockets belong to the page, which also
+// uses them for the session's connection status, so closing the transport
+// only stops forwarding media.
+export class WebSocketTransport implements StreamTransport {
+  readonly mode: StreamMode = "websocket";
+
+  private socketManager: GameSocketManager;
+  private signaling: WebRTCManager;
+  private frameStats = new WebSocketFrameStats();
+  private closed = false;
+  private _sessionId: string | null = null;
+
+  private onVideoCallback?: (video: TransportVideo) => void;
+  private onAudioCallback?: (audio: TransportAudio) => void;
+  private onInputAppliedCallback?: (input: AppliedInput) => void;
+
+  constructor(socketManager: GameSocketManager, signaling: WebRTCManager) {
+    this.socketManager = socketManager;
+    this.signaling = signaling;
+
+    socketManager.onFrame((frame) => {
+      if (this.closed) return;
+      this.frameStats.recordFrame();
+      this.onVideoCallback?.({ kind: "frame", frame });
+    });
+
+    socketManager.onAudio((audio) => {
+      if (this.closed) return;
+      this.onAudioCallback?.({ kind: "packet", audio });
+    });
+
+    socketManager.onInputApplied((input) => {
+      if (this.closed) return;
+      this.onInputAppliedCallback?.(input);
+    });
+  }
+
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
+  connect(): Promise<boolean> {
+    return this.socketManager.waitForConnection();
+  }
+
+  async subscribe(sessionId: string): Promise<boolean> {
+    this._sessionId = sessionId;
+    try {
+      this.socketManager.subscribeToSession(sessionId);
+      return true;
+    } catch (error) {
+      console.error("[Transport] Failed to subscribe to session:", error);
+      return false;
+    }
+  }
+
+  onVideo(callback: (video: TransportVideo) => void): void {
+    this.onVideoCallback = callback;
+  }
+
+  onAudio(callback: (audio: TransportAudio) => void): void {
+    this.onAudioCallback = callback;
+  }
+
+  // Socket drops are handled by GameSocketManager's reconnect state machine
+  onFailed(): void {}
+
+  onInputApplied(callback: (input: AppliedInput) => void): void {
+    this.onInputAppliedCallback = callback;
+  }
+
+  sendInput(event: InputEvent): void {
+    if (!this.sessionId) return;
+    this.socketManager.sendInput(this.sessionId, event);
+  }
+
+  sendHeldButtons(held: HeldButtons): void {
+    if (!this.sessionId) return;
+    this.socketManager.sendHeldButtons(this.sessionId, held);
+  }
+
+  sendInputState(state: InputStateFrame): void {
+    if (!this.sessionId) return;
+    this.socketManager.sendInputState(this.sessionId, state);
+  }
+
+  async saveState(): Promise<SaveStateResult | null> {
+    if (!this.sessionId) return null;
+    return requestSaveState(this.signaling, this.sessionId);
+  }
+
+  async loadState(stateData: string): Promise<boolean> {
+    if (!this.sessionId) return false;
+    return requestLoadState(this.signaling, this.sessionId, stateData);
+  }
+
+  getStatsCollector(): StatsCollector {
+    return this.frameStats;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.frameStats.stop();
+  }
+}
@@ -0,0 +1,39 @@
+import { authClient } from "@/lib/auth-client";
+
+// Settings are saved in localStorage per user, under
+// `${key}_${userId}` (`${key}_${userId}_${scope}` for per-ROM settings)
+function getStorageKey(key: string, scope?: string): string {
+  const user = authClient.getUser();
+  const userKey = `${key}_${user?.id ?? "guest"}`;
+  return scope === undefined ? userKey : `${userKey}_${scope}`;
+}
+
+// Stored values are merged over the defaults, so settings added later get
+// their default value
+export function loadUserSetting<T extends object>(
+  key: string,
+  defaults: T,
+  scope?: string
+): T {
+  try {
+    const stored = localStorage.getItem(getStorageKey(key, scope));
+    if (stored) {
+      return { ...defaults, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error(`Failed to load ${key}:`, e);
+  }
+  return { ...defaults };
+}
+
+export function saveUserSetting<T extends object>(
+  key: string,
+  value: T,
+  scope?: string
+): void {
+  try {
+    localStorage.setItem(getStorageKey(key, scope), JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to save ${key}:`, e);
+  }
+}
@@ -0,0 +1,18 @@
+import {
+  DEFAULT_VIDEO_FILTER_SETTINGS,
+  type VideoFilterSettings,
+} from "./webgl-renderer";
+import { loadUserSetting, saveUserSetting } from "./user-settings";
+
+const VIDEO_FILTER_STORAGE_KEY = "cloudgaming_video_filter";
+
+export function loadVideoFilterSettings(): VideoFilterSettings {
+  return loadUserSetting(
+    VIDEO_FILTER_STORAGE_KEY,
+    DEFAULT_VIDEO_FILTER_SETTINGS
+  );
+}
+
+export function saveVideoFilterSettings(settings: VideoFilterSettings): void {
+  saveUserSetting(VIDEO_FILTER_STORAGE_KEY, settings);
+}
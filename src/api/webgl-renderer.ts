@@ -0,0 +1,468 @@
+// "native" stretches the frame with nearest sampling like the 2D canvas,
+// "integer" keeps a whole-number scale factor and letterboxes the rest
+export type VideoScaler = "native" | "integer" | "xbr";
+
+export interface VideoFilterSettings {
+  scaler: VideoScaler;
+  lcdGrid: boolean;
+  colorCorrection: boolean;
+}
+
+export const DEFAULT_VIDEO_FILTER_SETTINGS: VideoFilterSettings = {
+  scaler: "native",
+  lcdGrid: false,
+  colorCorrection: false,
+};
+
+// The default settings render exactly like the 2D canvas, so WebGL is only
+// worth setting up when a filter is actually enabled
+export function needsWebGL(settings: VideoFilterSettings): boolean {
+  return (
+    settings.scaler !== "native" || settings.lcdGrid || settings.colorCorrection
+  );
+}
+
+let webgl2Supported: boolean | null = null;
+
+export function isWebGL2Supported(): boolean {
+  if (webgl2Supported === null) {
+    try {
+      webgl2Supported = !!document.createElement("canvas").getContext("webgl2");
+    } catch {
+      webgl2Supported = false;
+    }
+  }
+  return webgl2Supported;
+}
+
+// Fraction of the previous frame kept on screen in LCD mode
+const LCD_PERSISTENCE = 0.35;
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+uniform bool uFlipY;
+out vec2 vTexCoord;
+
+void main() {
+  vTexCoord = vec2(aPosition.x * 0.5 + 0.5, uFlipY ? 0.5 - aPosition.y * 0.5 : 0.5 + aPosition.y * 0.5);
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}
+`;
+
+const GHOSTING_SHADER = `#version 300 es
+precision highp float;
+uniform sampler2D uSource;
+uniform sampler2D uHistory;
+uniform float uPersistence;
+in vec2 vTexCoord;
+out vec4 outColor;
+
+void main() {
+  vec3 current = texture(uSource, vTexCoord).rgb;
+  vec3 previous = texture(uHistory, vTexCoord).rgb;
+  outColor = vec4(mix(current, previous, uPersistence), 1.0);
+}
+`;
+
+const FILTER_SHADER = `#version 300 es
+precision highp float;
+uniform sampler2D uSource;
+uniform vec2 uSourceSize;
+uniform bool uXbr;
+uniform bool uLcdGrid;
+uniform bool uColorCorrection;
+in vec2 vTexCoord;
+out vec4 outColor;
+
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+const float EDGE_THRESHOLD = 0.1;
+
+vec3 texel(vec2 pixel) {
+  pixel = clamp(pixel, vec2(0.0), uSourceSize - 1.0);
+  return texture(uSource, (pixel + 0.5) / uSourceSize).rgb;
+}
+
+float difference(vec3 a, vec3 b) {
+  return dot(abs(a - b), LUMA);
+}
+
+// Level 1 xBR: each texel quadrant looks at its two adjacent neighbours and,
+// when they form a diagonal edge, fills the corner beyond that edge
+vec3 xbr(vec2 coord) {
+  vec2 position = coord * uSourceSize;
+  vec2 pixel = floor(position);
+  vec2 local = fract(position) - 0.5;
+  vec2 dir = sign(local);
+  // Derivatives must be taken outside the non-uniform branch below
+  float distanceToCorner = abs(local.x) + abs(local.y);
+  float width = fwidth(distanceToCorner);
+
+  vec3 center = texel(pixel);
+  vec3 side = texel(pixel + vec2(dir.x, 0.0));
+  vec3 vertical = texel(pixel + vec2(0.0, dir.y));
+  vec3 oppositeSide = texel(pixel - vec2(dir.x, 0.0));
+  vec3 oppositeVertical = texel(pixel - vec2(0.0, dir.y));
+
+  bool edge = difference(side, vertical) < EDGE_THRESHOLD &&
+    difference(side, oppositeVertical) > EDGE_THRESHOLD &&
+    difference(vertical, oppositeSide) > EDGE_THRESHOLD;
+  if (!edge) return center;
+
+  float weight = smoothstep(0.5 - width, 0.5 + width, distanceToCorner);
+  return mix(center, mix(side, vertical, 0.5), weight);
+}
+
+vec3 lcdGrid(vec3 color, vec2 coord) {
+  vec2 cell = fract(coord * uSourceSize);
+  vec2 width = fwidth(coord * uSourceSize);
+  vec2 edge = smoothstep(vec2(0.0), width * 1.5, cell) *
+    smoothstep(vec2(1.0), 1.0 - width * 1.5, cell);
+  return color * mix(0.7, 1.0, edge.x * edge.y);
+}
+
+// GBA LCD colour response (gamma 2.2 in and out, channel crosstalk)
+vec3 correctColor(vec3 color) {
+  vec3 linear = pow(color, vec3(2.2)) * 0.94;
+  mat3 response = mat3(
+    0.82, 0.125, 0.195,
+    0.24, 0.665, 0.075,
+    -0.06, 0.21, 0.73
+  );
+  return pow(clamp(response * linear, 0.0, 1.0), vec3(1.0 / 2.2));
+}
+
+void main() {
+  vec3 color = uXbr ? xbr(vTexCoord) : texture(uSource, vTexCoord).rgb;
+  if (uLcdGrid) color = lcdGrid(color, vTexCoord);
+  if (uColorCorrection) color = correctColor(color);
+  outColor = vec4(color, 1.0);
+}
+`;
+
+interface FilterProgram {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+interface HistoryTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+function getSourceSize(source: TexImageSource): [number, number] {
+  // DOM element classes are not defined inside workers
+  if (
+    typeof HTMLVideoElement !== "undefined" &&
+    source instanceof HTMLVideoElement
+  ) {
+    return [source.videoWidth, source.videoHeight];
+  }
+  if (
+    typeof HTMLImageElement !== "undefined" &&
+    source instanceof HTMLImageElement
+  ) {
+    return [source.naturalWidth, source.naturalHeight];
+  }
+  if ("displayWidth" in source) {
+    return [source.displayWidth, source.displayHeight];
+  }
+  return [source.width, source.height];
+}
+
+// Draws frames through WebGL2 so the GBA output can be post-processed.
+// Works on both a DOM canvas and an OffscreenCanvas inside a worker, which is
+// why this module must not pull in DOM-only dependencies.
+export class WebGLFrameRenderer {
+  private canvas: RenderCanvas | null = null;
+  private gl: WebGL2RenderingContext | null = null;
+  private filterProgram: FilterProgram | null = null;
+  private ghostingProgram: FilterProgram | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private history: HistoryTarget[] = [];
+  private historySize: [number, number] = [0, 0];
+  private historyIndex = 0;
+  private settings: VideoFilterSettings = { ...DEFAULT_VIDEO_FILTER_SETTINGS };
+  private outputSize: [number, number] | null = null;
+
+  initialize(canvas: RenderCanvas): boolean {
+    this.destroy();
+
+    const gl = canvas.getContext("webgl2", {
+      alpha: false,
+      antialias: false,
+      desynchronized: true,
+      preserveDrawingBuffer: false,
+    }) as WebGL2RenderingContext | null;
+
+    if (!gl) {
+      console.warn("[WebGL] WebGL2 not available");
+      return false;
+    }
+
+    try {
+      this.filterProgram = this.createProgram(gl, FILTER_SHADER, [
+        "uFlipY",
+        "uSource",
+        "uSourceSize",
+        "uXbr",
+        "uLcdGrid",
+        "uColorCorrection",
+      ]);
+      this.ghostingProgram = this.createProgram(gl, GHOSTING_SHADER, [
+        "uFlipY",
+        "uSource",
+        "uHistory",
+        "uPersistence",
+      ]);
+    } catch (error) {
+      console.error("[WebGL] Failed to build shaders:", error);
+      return false;
+    }
+
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+      gl.STATIC_DRAW
+    );
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.sourceTexture = this.createTexture(gl);
+    this.canvas = canvas;
+    this.gl = gl;
+    return true;
+  }
+
+  setSettings(settings: VideoFilterSettings): void {
+    this.settings = { ...settings };
+  }
+
+  // Drawing buffer size for an OffscreenCanvas, which has no layout size to
+  // measure. DOM canvases follow their CSS size automatically.
+  setOutputSize(width: number, height: number): void {
+    this.outputSize = [width, height];
+  }
+
+  draw(source: TexImageSource): void {
+    const gl = this.gl;
+    if (!gl || !this.filterProgram || !this.sourceTexture) return;
+
+    const [sourceWidth, sourceHeight] = getSourceSize(source);
+    if (sourceWidth === 0 || sourceHeight === 0) return;
+
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    let texture = this.sourceTexture;
+    if (this.settings.lcdGrid) {
+      texture = this.applyGhosting(gl, sourceWidth, sourceHeight);
+    }
+
+    const [width, height] = this.resizeOutput();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.clearColor(0, 0, 0, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    if (this.settings.scaler === "integer") {
+      const scale = Math.max(
+        1,
+        Math.floor(Math.min(width / sourceWidth, height / sourceHeight))
+      );
+      const viewportWidth = sourceWidth * scale;
+      const viewportHeight = sourceHeight * scale;
+      gl.viewport(
+        Math.floor((width - viewportWidth) / 2),
+        Math.floor((height - viewportHeight) / 2),
+        viewportWidth,
+        viewportHeight
+      );
+    } else {
+      gl.viewport(0, 0, width, height);
+    }
+
+    const { program, uniforms } = this.filterProgram;
+    gl.useProgram(program);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.uniform1i(uniforms.uFlipY, 1);
+    gl.uniform1i(uniforms.uSource, 0);
+    gl.uniform2f(uniforms.uSourceSize, sourceWidth, sourceHeight);
+    gl.uniform1i(uniforms.uXbr, this.settings.scaler === "xbr" ? 1 : 0);
+    gl.uniform1i(uniforms.uLcdGrid, this.settings.lcdGrid ? 1 : 0);
+    gl.uniform1i(
+      uniforms.uColorCorrection,
+      this.settings.colorCorrection ? 1 : 0
+    );
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  destroy(): void {
+    const gl = this.gl;
+    if (gl) {
+      if (this.filterProgram) gl.deleteProgram(this.filterProgram.program);
+      if (this.ghostingProgram) gl.deleteProgram(this.ghostingProgram.program);
+      if (this.sourceTexture) gl.deleteTexture(this.sourceTexture);
+      this.releaseHistory(gl);
+    }
+
+    this.gl = null;
+    this.canvas = null;
+    this.filterProgram = null;
+    this.ghostingProgram = null;
+    this.sourceTexture = null;
+  }
+
+  // Blends the new frame with the previous output at source resolution to
+  // mimic the slow pixel response of the original LCD
+  private applyGhosting(
+    gl: WebGL2RenderingContext,
+    width: number,
+    height: number
+  ): WebGLTexture {
+    if (!this.ghostingProgram || !this.sourceTexture) {
+      return this.sourceTexture as WebGLTexture;
+    }
+
+    if (this.historySize[0] !== width || this.historySize[1] !== height) {
+      this.releaseHistory(gl);
+      this.history = [0, 1].map(() => {
+        const texture = this.createTexture(gl);
+        gl.texImage2D(
+          gl.TEXTURE_2D,
+          0,
+          gl.RGBA,
+          width,
+          height,
+          0,
+          gl.RGBA,
+          gl.UNSIGNED_BYTE,
+          null
+        );
+        const framebuffer = gl.createFramebuffer() as WebGLFramebuffer;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(
+          gl.FRAMEBUFFER,
+          gl.COLOR_ATTACHMENT0,
+          gl.TEXTURE_2D,
+          texture,
+          0
+        );
+        return { texture, framebuffer };
+      });
+      this.historySize = [width, height];
+    }
+
+    const previous = this.history[this.historyIndex];
+    const next = this.history[1 - this.historyIndex];
+
+    const { program, uniforms } = this.ghostingProgram;
+    gl.useProgram(program);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, next.framebuffer);
+    gl.viewport(0, 0, width, height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, previous.texture);
+    gl.uniform1i(uniforms.uFlipY, 0);
+    gl.uniform1i(uniforms.uSource, 0);
+    gl.uniform1i(uniforms.uHistory, 1);
+    gl.uniform1f(uniforms.uPersistence, LCD_PERSISTENCE);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.activeTexture(gl.TEXTURE0);
+
+    this.historyIndex = 1 - this.historyIndex;
+    return next.texture;
+  }
+
+  private resizeOutput(): [number, number] {
+    const canvas = this.canvas;
+    if (!canvas) return [0, 0];
+
+    let width: number;
+    let height: number;
+    if (this.outputSize) {
+      [width, height] = this.outputSize;
+    } else if (
+      typeof HTMLCanvasElement !== "undefined" &&
+      canvas instanceof HTMLCanvasElement
+    ) {
+      const ratio = window.devicePixelRatio || 1;
+      width = Math.round(canvas.clientWidth * ratio);
+      height = Math.round(canvas.clientHeight * ratio);
+    } else {
+      return [canvas.width, canvas.height];
+    }
+
+    if (width > 0 && height > 0) {
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+    }
+    return [canvas.width, canvas.height];
+  }
+
+  private releaseHistory(gl: WebGL2RenderingContext): void {
+    this.history.forEach(({ texture, framebuffer }) => {
+      gl.deleteTexture(texture);
+      gl.deleteFramebuffer(framebuffer);
+    });
+    this.history = [];
+    this.historySize = [0, 0];
+    this.historyIndex = 0;
+  }
+
+  private createTexture(gl: WebGL2RenderingContext): WebGLTexture {
+    const texture = gl.createTexture() as WebGLTexture;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return texture;
+  }
+
+  private createProgram(
+    gl: WebGL2RenderingContext,
+    fragmentSource: string,
+    uniformNames: string[]
+  ): FilterProgram {
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type) as WebGLShader;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(log ?? "Shader compilation failed");
+      }
+      return shader;
+    };
+
+    const vertexShader = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+
+    const program = gl.createProgram() as WebGLProgram;
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.bindAttribLocation(program, 0, "aPosition");
+    gl.linkProgram(program);
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(log ?? "Program link failed");
+    }
+
+    const uniforms: Record<string, WebGLUniformLocation | null> = {};
+    uniformNames.forEach((name) => {
+      uniforms[name] = gl.getUniformLocation(program, name);
+    });
+
+    return { program, uniforms };
+  }
+}
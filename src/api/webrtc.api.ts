@@ -1,5 +1,5 @@
-// Re-export all WebRTC functionality from the webrtc module
-// This file is kept for backward compatibility
+// Single entry point for the streaming client (src/api/webrtc), used by
+// PlayPage and useGameSession
 
 export {
   // Types
@@ -9,7 +9,13 @@ export {
   // Config
   getServerHost,
   getSocketUrl,
+  getStreamSocketUrl,
   ICE_SERVERS,
+  fetchIceConfig,
+  isLanOnlyMode,
+  isLanOnlyForced,
+  setLanOnlyMode,
+  type IceConfig,
   // Classes
   WebRTCManager,
   WebRTCVideoRenderer,
@@ -1,4 +1,6 @@
-import audioWorkletUrl from "../../lib/audio-worklet-processor.ts?worker&url";
+import type { AudioBufferStats } from "../../lib/audio-jitter-buffer";
+import { PCMAudioOutput, pcm16ToFloat32 } from "../../lib/audio-output";
+import { AudioMixer, type AudioSettings } from "../../lib/audio-mixer";
 import type { AudioData } from "./types";
 
 // WebRTC Audio Player
@@ -7,17 +9,10 @@ export class WebRTCAudioPlayer {
   private audioElement: HTMLAudioElement | null = null;
   private audioContext: AudioContext | null = null;
   private sourceNode: MediaStreamAudioSourceNode | null = null;
-  private gainNode: GainNode | null = null;
-
-  private audioWorkletNode: AudioWorkletNode | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
-  private audioQueue: Float32Array[] = [];
-  private queuedSamples: number = 0;
-  private currentBuffer: Float32Array | null = null;
-  private currentBufferOffset: number = 0;
-  private lastUnderrun: number = 0;
-  private maxQueueMs: number = 60;
-  private channels: number = 2;
+  private mixer = new AudioMixer();
+  private mixerInput: AudioNode | null = null;
+
+  private pcmOutput = new PCMAudioOutput();
 
   async initialize(): Promise<void> {
     this.audioElement = document.createElement("audio");
@@ -38,46 +33,12 @@ export class WebRTCAudioPlayer {
         sampleRate: 48000,
       });
 
-      this.gainNode = this.audioContext.createGain();
-      this.gainNode.connect(this.audioContext.destination);
-      this.gainNode.gain.value = 1.0;
-
-      try {
-        await this.audioContext.audioWorklet.addModule(audioWorkletUrl);
-
-        this.audioWorkletNode = new AudioWorkletNode(
-          this.audioContext,
-          "webrtc-audio-processor",
-          {
-            outputChannelCount: [2],
-          }
-        );
-
-        this.audioWorkletNode.connect(this.gainNode);
-
-        this.audioWorkletNode.port.onmessage = (event) => {
-          if (event.data.type === "latency") {
-          }
-        };
-      } catch (e) {
-        console.error(
-          "[WebRTC Audio] Failed to load AudioWorklet, falling back to ScriptProcessor:",
-          e
-        );
-
-        const bufferSize = 512;
-        this.scriptProcessor = this.audioContext.createScriptProcessor(
-          bufferSize,
-          0,
-          2
-        );
-
-        this.scriptProcessor.onaudioprocess = (event) => {
-          this.processAudio(event);
-        };
+      this.mixerInput = this.mixer.connect(
+        this.audioContext,
+        this.audioContext.destination
+      );
 
-        this.scriptProcessor.connect(this.gainNode);
-      }
+      await this.pcmOutput.connect(this.audioContext, this.mixerInput);
 
       console.log(
         "[WebRTC Audio] Low-latency audio initialized:",
@@ -92,63 +53,8 @@ export class WebRTCAudioPlayer {
     }
   }
 
-  private processAudio(event: AudioProcessingEvent): void {
-    const outputL = event.outputBuffer.getChannelData(0);
-    const outputR = event.outputBuffer.getChannelData(1);
-    const bufferSize = outputL.length;
-
-    let outputOffset = 0;
-    let hadUnderrun = false;
-
-    while (outputOffset < bufferSize) {
-      if (
-        !this.currentBuffer ||
-        this.currentBufferOffset >= this.currentBuffer.length
-      ) {
-        const nextBuffer = this.audioQueue.shift();
-        if (nextBuffer) {
-          this.currentBuffer = nextBuffer;
-          this.currentBufferOffset = 0;
-          this.queuedSamples -= nextBuffer.length / this.channels;
-        } else {
-          this.currentBuffer = null;
-        }
-      }
-
-      if (this.currentBuffer) {
-        const samplesAvailable =
-          (this.currentBuffer.length - this.currentBufferOffset) /
-          this.channels;
-        const samplesNeeded = bufferSize - outputOffset;
-        const samplesToCopy = Math.min(samplesAvailable, samplesNeeded);
-
-        for (let i = 0; i < samplesToCopy; i++) {
-          const srcIdx = this.currentBufferOffset + i * this.channels;
-          outputL[outputOffset + i] = this.currentBuffer[srcIdx];
-          outputR[outputOffset + i] =
-            this.channels > 1
-              ? this.currentBuffer[srcIdx + 1]
-              : this.currentBuffer[srcIdx];
-        }
-
-        this.currentBufferOffset += samplesToCopy * this.channels;
-        outputOffset += samplesToCopy;
-      } else {
-        hadUnderrun = true;
-        for (let i = outputOffset; i < bufferSize; i++) {
-          outputL[i] = 0;
-          outputR[i] = 0;
-        }
-        break;
-      }
-    }
-
-    if (hadUnderrun) {
-      const now = Date.now();
-      if (now - this.lastUnderrun > 1000) {
-        this.lastUnderrun = now;
-      }
-    }
+  onBufferStats(callback: (stats: AudioBufferStats) => void): void {
+    this.pcmOutput.onStats(callback);
   }
 
   playPCMAudio(audioData: AudioData): void {
@@ -162,82 +68,7 @@ export class WebRTCAudioPlayer {
     }
 
     const { samples, sampleRate, channels } = audioData;
-    this.channels = channels;
-
-    if (samples.length === 0) return;
-
-    const float32Array = new Float32Array(samples.length);
-    for (let i = 0; i < samples.length; i++) {
-      float32Array[i] = samples[i] / 32768.0;
-    }
-
-    let processedSamples: Float32Array;
-    if (sampleRate !== this.audioContext.sampleRate) {
-      processedSamples = this.resample(
-        float32Array,
-        sampleRate,
-        this.audioContext.sampleRate,
-        channels
-      );
-    } else {
-      processedSamples = float32Array;
-    }
-
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.port.postMessage(
-        {
-          type: "add-samples",
-          samples: processedSamples,
-          sampleRate: this.audioContext.sampleRate,
-          channels: channels,
-        },
-        [processedSamples.buffer]
-      );
-    } else if (this.scriptProcessor) {
-      const maxQueueSamples =
-        (this.maxQueueMs / 1000) * this.audioContext.sampleRate;
-      while (
-        this.queuedSamples > maxQueueSamples &&
-        this.audioQueue.length > 0
-      ) {
-        const dropped = this.audioQueue.shift();
-        if (dropped) {
-          this.queuedSamples -= dropped.length / channels;
-        }
-      }
-
-      this.audioQueue.push(processedSamples);
-      this.queuedSamples += processedSamples.length / channels;
-    }
-  }
-
-  private resample(
-    input: Float32Array,
-    fromRate: number,
-    toRate: number,
-    channels: number
-  ): Float32Array {
-    if (fromRate === toRate) return input;
-
-    const ratio = fromRate / toRate;
-    const inputFrames = Math.floor(input.length / channels);
-    const outputFrames = Math.floor(inputFrames / ratio);
-    const output = new Float32Array(outputFrames * channels);
-
-    for (let i = 0; i < outputFrames; i++) {
-      const srcIndex = i * ratio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, inputFrames - 1);
-      const fraction = srcIndex - srcIndexFloor;
-
-      for (let ch = 0; ch < channels; ch++) {
-        const sample1 = input[srcIndexFloor * channels + ch];
-        const sample2 = input[srcIndexCeil * channels + ch];
-        output[i * channels + ch] = sample1 + (sample2 - sample1) * fraction;
-      }
-    }
-
-    return output;
+    this.pcmOutput.push(pcm16ToFloat32(samples), sampleRate, channels);
   }
 
   setAudioStream(stream: MediaStream): void {
@@ -261,7 +92,7 @@ export class WebRTCAudioPlayer {
       track.enabled = true;
     });
 
-    if (this.audioContext && this.gainNode) {
+    if (this.audioContext && this.mixerInput) {
       try {
         if (this.sourceNode) {
           this.sourceNode.disconnect();
@@ -269,7 +100,7 @@ export class WebRTCAudioPlayer {
         }
 
         this.sourceNode = this.audioContext.createMediaStreamSource(stream);
-        this.sourceNode.connect(this.gainNode);
+        this.sourceNode.connect(this.mixerInput);
 
         if (this.audioContext.state === "suspended") {
           this.audioContext
@@ -295,6 +126,17 @@ export class WebRTCAudioPlayer {
     }
   }
 
+  // Detach the current media track, e.g. while another path plays
+  clearAudioStream(): void {
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
+    if (this.audioElement) {
+      this.audioElement.srcObject = null;
+    }
+  }
+
   private playWithAudioElement(stream: MediaStream): void {
     if (!this.audioElement) return;
 
@@ -303,7 +145,7 @@ export class WebRTCAudioPlayer {
     if (playPromise !== undefined) {
       playPromise
         .then(() => {
-          this.audioElement!.muted = false;
+          this.applyToAudioElement();
         })
         .catch((error) => {
           console.warn("[WebRTC Audio] Autoplay blocked:", error);
@@ -335,8 +177,7 @@ export class WebRTCAudioPlayer {
 
     if (this.audioElement) {
       try {
-        this.audioElement.muted = false;
-        this.audioElement.volume = 1.0;
+        this.applyToAudioElement();
         if (this.audioElement.paused && this.audioElement.srcObject) {
           await this.audioElement.play();
         }
@@ -346,68 +187,55 @@ export class WebRTCAudioPlayer {
     }
   }
 
+  setAudioSettings(settings: AudioSettings): void {
+    this.mixer.apply(settings);
+    this.applyToAudioElement();
+  }
+
   setVolume(volume: number): void {
-    const normalizedVolume = Math.max(0, Math.min(1, volume));
-    if (this.gainNode) {
-      this.gainNode.gain.value = normalizedVolume;
-    }
-    if (this.audioElement) {
-      this.audioElement.volume = normalizedVolume;
-    }
+    this.setAudioSettings({ ...this.mixer.getSettings(), volume });
   }
 
   mute(): void {
-    if (this.gainNode) {
-      this.gainNode.gain.value = 0;
-    }
-    if (this.audioElement) {
-      this.audioElement.muted = true;
-    }
+    this.setAudioSettings({ ...this.mixer.getSettings(), muted: true });
   }
 
   unmute(): void {
-    if (this.gainNode) {
-      this.gainNode.gain.value = 1.0;
-    }
-    if (this.audioElement) {
-      this.audioElement.muted = false;
-    }
+    this.setAudioSettings({ ...this.mixer.getSettings(), muted: false });
+  }
+
+  // The audio element fallback bypasses Web Audio, so only volume and mute
+  // apply to it
+  private applyToAudioElement(): void {
+    if (!this.audioElement) return;
+    const { volume, muted } = this.mixer.getSettings();
+    this.audioElement.volume = Math.max(0, Math.min(1, volume));
+    this.audioElement.muted = muted;
+  }
+
+  // Data channel PCM arrives at the emulation speed times the source rate,
+  // so the buffer reads at the same multiple. Media tracks are re-timed by
+  // the browser's own jitter buffer and need nothing here.
+  setPlaybackSpeed(speed: number): void {
+    this.pcmOutput.setPlaybackRate(speed);
   }
 
   // Clear audio queue to reduce latency
   clearQueue(): void {
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.port.postMessage({ type: "clear-queue" });
-    }
-    // Also clear ScriptProcessor queue
-    this.audioQueue = [];
-    this.queuedSamples = 0;
-    this.currentBuffer = null;
-    this.currentBufferOffset = 0;
+    this.pcmOutput.clear();
   }
 
   cleanup(): void {
-    // Clean up AudioWorklet
-    if (this.audioWorkletNode) {
-      this.audioWorkletNode.disconnect();
-      this.audioWorkletNode = null;
-    }
-
-    // Clean up ScriptProcessor
-    if (this.scriptProcessor) {
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor = null;
-    }
+    // Clean up the PCM playback engine
+    this.pcmOutput.disconnect();
 
     // Clean up Web Audio API resources
     if (this.sourceNode) {
       this.sourceNode.disconnect();
       this.sourceNode = null;
     }
-    if (this.gainNode) {
-      this.gainNode.disconnect();
-      this.gainNode = null;
-    }
+    this.mixer.disconnect();
+    this.mixerInput = null;
     if (this.audioContext) {
       this.audioContext.close().catch(console.error);
       this.audioContext = null;
@@ -421,10 +249,5 @@ export class WebRTCAudioPlayer {
       }
       this.audioElement = null;
     }
-
-    // Clear queue
-    this.audioQueue = [];
-    this.queuedSamples = 0;
-    this.currentBuffer = null;
   }
 }
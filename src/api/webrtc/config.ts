@@ -10,9 +10,147 @@ export const getServerHost = () => {
 
 export const getSocketUrl = () => getServerHost();
 
+// Raw WebSocket endpoint of the binary stream transport
+export const getStreamSocketUrl = () =>
+  import.meta.env.VITE_STREAM_URL ||
+  `${getServerHost().replace(/^http/, "ws")}/stream`;
+
+// Fallback used when neither the server nor the env provides ICE servers
 export const ICE_SERVERS: RTCIceServer[] = [
   { urls: "stun:stun.l.google.com:19302" },
   { urls: "stun:stun1.l.google.com:19302" },
   { urls: "stun:stun2.l.google.com:19302" },
   { urls: "stun:stun3.l.google.com:19302" },
 ];
+
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+  // Epoch ms after which the TURN credentials are no longer valid
+  expiresAt?: number;
+}
+
+interface IceConfigResponse {
+  iceServers: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+  ttl?: number;
+  expiresAt?: number | string;
+}
+
+const LAN_ONLY_STORAGE_KEY = "cloudgaming_webrtc_lan_only";
+
+// Refresh TURN credentials a little before they actually expire
+const ICE_CONFIG_REFRESH_MARGIN_MS = 60 * 1000;
+
+let cachedIceConfig: IceConfig | null = null;
+
+// LAN-only mode skips STUN/TURN entirely so only host candidates are
+// gathered, which is what works on an offline local network
+// VITE_WEBRTC_LAN_ONLY=true forces the mode, the user setting is ignored
+export function isLanOnlyForced(): boolean {
+  return import.meta.env.VITE_WEBRTC_LAN_ONLY === "true";
+}
+
+export function isLanOnlyMode(): boolean {
+  if (isLanOnlyForced()) return true;
+  try {
+    return localStorage.getItem(LAN_ONLY_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function setLanOnlyMode(enabled: boolean): void {
+  try {
+    if (enabled) {
+      localStorage.setItem(LAN_ONLY_STORAGE_KEY, "true");
+    } else {
+      localStorage.removeItem(LAN_ONLY_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn("Failed to save LAN-only mode:", e);
+  }
+}
+
+function getEnvIceServers(): RTCIceServer[] | null {
+  const raw = import.meta.env.VITE_ICE_SERVERS;
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (e) {
+    console.warn("Invalid VITE_ICE_SERVERS, ignoring it:", e);
+    return null;
+  }
+}
+
+export function isIceConfigExpired(config: IceConfig): boolean {
+  return (
+    config.expiresAt !== undefined &&
+    config.expiresAt - ICE_CONFIG_REFRESH_MARGIN_MS <= Date.now()
+  );
+}
+
+function parseIceConfigResponse(data: IceConfigResponse): IceConfig {
+  let expiresAt: number | undefined;
+  if (data.expiresAt !== undefined) {
+    expiresAt = new Date(data.expiresAt).getTime();
+  } else if (data.ttl !== undefined) {
+    expiresAt = Date.now() + data.ttl * 1000;
+  }
+
+  return {
+    iceServers: data.iceServers,
+    iceTransportPolicy: data.iceTransportPolicy,
+    expiresAt,
+  };
+}
+
+// Resolve the ICE configuration for a new peer connection. Order of
+// precedence: LAN-only mode, VITE_ICE_SERVERS, the server endpoint (cached
+// until its TURN credentials expire), then the public STUN fallback.
+export async function fetchIceConfig(): Promise<IceConfig> {
+  if (isLanOnlyMode()) {
+    return { iceServers: [] };
+  }
+
+  const envServers = getEnvIceServers();
+  if (envServers) {
+    return { iceServers: envServers };
+  }
+
+  if (cachedIceConfig && !isIceConfigExpired(cachedIceConfig)) {
+    return cachedIceConfig;
+  }
+
+  try {
+    const response = await fetch(`${getServerHost()}/api/webrtc/ice-servers`);
+    if (!response.ok) {
+      throw new Error(`HTTP Error ${response.status}`);
+    }
+
+    const data: IceConfigResponse = await response.json();
+    if (!Array.isArray(data.iceServers)) {
+      throw new Error("Malformed ICE configuration");
+    }
+
+    cachedIceConfig = parseIceConfigResponse(data);
+    return cachedIceConfig;
+  } catch (error) {
+    console.warn("[WebRTC] Failed to fetch ICE servers, using STUN:", error);
+    return { iceServers: ICE_SERVERS };
+  }
+}
+
+export function buildPeerConnectionConfig(
+  iceConfig: IceConfig
+): RTCConfiguration {
+  return {
+    iceServers: iceConfig.iceServers,
+    iceTransportPolicy: iceConfig.iceTransportPolicy ?? "all",
+    iceCandidatePoolSize: iceConfig.iceServers.length > 0 ? 10 : 0,
+    bundlePolicy: "max-bundle",
+    rtcpMuxPolicy: "require",
+  };
+}
@@ -4,7 +4,17 @@
 export type { StreamMode, WebRTCSessionInfo, AudioData } from "./types";
 
 // Config
-export { getServerHost, getSocketUrl, ICE_SERVERS } from "./config";
+export {
+  getServerHost,
+  getSocketUrl,
+  getStreamSocketUrl,
+  ICE_SERVERS,
+  fetchIceConfig,
+  isLanOnlyMode,
+  isLanOnlyForced,
+  setLanOnlyMode,
+  type IceConfig,
+} from "./config";
 
 // Classes
 export { WebRTCManager } from "./webrtc-manager";
@@ -14,5 +24,5 @@ export { WebRTCAudioPlayer } from "./audio-player";
 // API functions
 export { setStreamMode, getStreamMode } from "./stream-api";
 
-// ADPCM Decoder (if needed externally)
+// ADPCM Decoder, shared with the websocket audio path
 export { decodeADPCM } from "./adpcm-decoder";
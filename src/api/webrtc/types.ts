@@ -1,6 +1,9 @@
 // WebRTC Types
 
-export type StreamMode = "websocket" | "webrtc" | "both";
+import type { AudioCodec } from "../audio-codecs";
+import type { VideoFilterSettings } from "../webgl-renderer";
+
+export type StreamMode = "websocket" | "webrtc" | "both" | "binary";
 
 export interface WebRTCSessionInfo {
   sessionId: string;
@@ -11,4 +14,14 @@ export interface AudioData {
   samples: Int16Array;
   sampleRate: number;
   channels: number;
+  // Codec the packet was sent with, samples are always decoded PCM16
+  codec?: AudioCodec;
 }
+
+// Messages from WebRTCVideoRenderer to the video worker
+export type VideoWorkerMessage =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | { type: "stream"; readable: ReadableStream<VideoFrame> }
+  | { type: "filter"; settings: VideoFilterSettings }
+  | { type: "resize"; width: number; height: number }
+  | { type: "stop" };
@@ -1,18 +1,85 @@
 // WebRTC Video Renderer
 
+import VideoWorker from "./video-worker.ts?worker";
+import {
+  DEFAULT_VIDEO_FILTER_SETTINGS,
+  type VideoFilterSettings,
+  type WebGLFrameRenderer,
+} from "../webgl-renderer";
+import type { VideoWorkerMessage } from "./types";
+
 export class WebRTCVideoRenderer {
   private videoElement: HTMLVideoElement | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
   private animationFrameId: number | null = null;
   private abortController: AbortController | null = null;
+  private onFramePresentedCallback?: () => void;
+  private webglRenderer: WebGLFrameRenderer | null = null;
+
+  // Worker path: frames are drawn to a separate canvas whose control has been
+  // transferred to a worker. Control can only be transferred once per element,
+  // so the worker lives as long as that element does.
+  private workerCanvas: HTMLCanvasElement | null = null;
+  private worker: Worker | null = null;
+  private workerStream: MediaStream | null = null;
+  private workerFilter: VideoFilterSettings = {
+    ...DEFAULT_VIDEO_FILTER_SETTINGS,
+  };
+  private resizeObserver: ResizeObserver | null = null;
+  private onWorkerRenderingCallback?: (active: boolean) => void;
 
-  initialize(canvas: HTMLCanvasElement): void {
+  initialize(
+    canvas: HTMLCanvasElement,
+    workerCanvas: HTMLCanvasElement | null = null
+  ): void {
     this.canvas = canvas;
     this.context = canvas.getContext("2d", {
       alpha: false,
       desynchronized: true,
     });
+
+    if (workerCanvas !== this.workerCanvas) {
+      const stream = this.workerStream;
+      this.terminateWorker();
+      this.workerCanvas = workerCanvas;
+      // Keep rendering on the new element (e.g. after a fullscreen switch)
+      if (stream) this.setVideoStream(stream);
+    }
+  }
+
+  onWorkerRendering(callback: (active: boolean) => void): void {
+    this.onWorkerRenderingCallback = callback;
+  }
+
+  setWorkerFilter(settings: VideoFilterSettings): void {
+    this.workerFilter = settings;
+    this.postToWorker({ type: "filter", settings });
+  }
+
+  onFramePresented(callback: () => void): void {
+    this.onFramePresentedCallback = callback;
+  }
+
+  setWebGLRenderer(renderer: WebGLFrameRenderer | null): void {
+    this.webglRenderer = renderer;
+  }
+
+  private drawFrame(source: VideoFrame | HTMLVideoElement): void {
+    if (this.webglRenderer) {
+      this.webglRenderer.draw(source);
+    } else if (this.context && this.canvas) {
+      this.context.drawImage(
+        source,
+        0,
+        0,
+        this.canvas.width,
+        this.canvas.height
+      );
+    } else {
+      return;
+    }
+    this.onFramePresentedCallback?.();
   }
 
   setVideoStream(stream: MediaStream): void {
@@ -26,6 +93,10 @@ export class WebRTCVideoRenderer {
       }
     });
 
+    if (this.canRenderInWorker() && this.renderInWorker(stream)) {
+      return;
+    }
+
     if ("MediaStreamTrackProcessor" in window) {
       this.renderWithWebCodecs(stream);
     } else {
@@ -33,6 +104,103 @@ export class WebRTCVideoRenderer {
     }
   }
 
+  private canRenderInWorker(): boolean {
+    return (
+      !!this.workerCanvas &&
+      "MediaStreamTrackProcessor" in window &&
+      "transferControlToOffscreen" in HTMLCanvasElement.prototype
+    );
+  }
+
+  private renderInWorker(stream: MediaStream): boolean {
+    const track = stream.getVideoTracks()[0];
+    if (!track || !this.ensureWorker() || !this.worker) return false;
+
+    try {
+      // @ts-expect-error - MediaStreamTrackProcessor is not in the DOM types yet
+      const processor = new MediaStreamTrackProcessor({ track });
+      this.worker.postMessage(
+        { type: "stream", readable: processor.readable },
+        [processor.readable]
+      );
+    } catch (error) {
+      // ReadableStream transfer is not supported everywhere
+      console.warn("[WebRTC Video] Worker rendering unavailable:", error);
+      this.terminateWorker();
+      return false;
+    }
+
+    this.workerStream = stream;
+    this.onWorkerRenderingCallback?.(true);
+    return true;
+  }
+
+  private ensureWorker(): boolean {
+    if (this.worker) return true;
+    if (!this.workerCanvas) return false;
+
+    const element = this.workerCanvas;
+    let offscreen: OffscreenCanvas;
+    try {
+      offscreen = element.transferControlToOffscreen();
+    } catch (error) {
+      console.warn("[WebRTC Video] Cannot transfer canvas:", error);
+      return false;
+    }
+
+    offscreen.width = 240;
+    offscreen.height = 160;
+
+    this.worker = new VideoWorker();
+    this.worker.onmessage = (event) => {
+      if (event.data?.type === "error") {
+        this.fallbackToMainThread();
+      }
+    };
+    this.worker.onerror = (event) => {
+      console.error("[WebRTC Video] Worker error:", event.message);
+      this.fallbackToMainThread();
+    };
+
+    this.worker.postMessage({ type: "init", canvas: offscreen }, [offscreen]);
+    this.postToWorker({ type: "filter", settings: this.workerFilter });
+
+    this.resizeObserver = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      this.postToWorker({
+        type: "resize",
+        width: Math.round(element.clientWidth * ratio),
+        height: Math.round(element.clientHeight * ratio),
+      });
+    });
+    this.resizeObserver.observe(element);
+
+    return true;
+  }
+
+  private fallbackToMainThread(): void {
+    const stream = this.workerStream;
+    this.terminateWorker();
+    // The transferred element cannot be reused, render on the 2D canvas
+    this.workerCanvas = null;
+    if (stream) this.setVideoStream(stream);
+  }
+
+  private postToWorker(message: VideoWorkerMessage): void {
+    this.worker?.postMessage(message);
+  }
+
+  private terminateWorker(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.workerStream) {
+      this.workerStream = null;
+      this.onWorkerRenderingCallback?.(false);
+    }
+  }
+
   private async renderWithWebCodecs(stream: MediaStream): Promise<void> {
     const track = stream.getVideoTracks()[0];
     if (!track) return;
@@ -50,14 +218,8 @@ export class WebRTCVideoRenderer {
         if (done) break;
 
         if (frame) {
-          if (!signal.aborted && this.context && this.canvas) {
-            this.context.drawImage(
-              frame,
-              0,
-              0,
-              this.canvas.width,
-              this.canvas.height
-            );
+          if (!signal.aborted) {
+            this.drawFrame(frame);
           }
           frame.close();
         }
@@ -104,15 +266,9 @@ export class WebRTCVideoRenderer {
       "requestVideoFrameCallback" in HTMLVideoElement.prototype
     ) {
       const renderVideoFrame = () => {
-        if (this.videoElement && this.context && this.canvas) {
+        if (this.videoElement) {
           if (this.videoElement.readyState >= 2) {
-            this.context.drawImage(
-              this.videoElement,
-              0,
-              0,
-              this.canvas.width,
-              this.canvas.height
-            );
+            this.drawFrame(this.videoElement);
           }
           (this.videoElement as any).requestVideoFrameCallback(
             renderVideoFrame
@@ -122,16 +278,8 @@ export class WebRTCVideoRenderer {
       (this.videoElement as any).requestVideoFrameCallback(renderVideoFrame);
     } else {
       const render = () => {
-        if (this.videoElement && this.context && this.canvas) {
-          if (this.videoElement.readyState >= 2) {
-            this.context.drawImage(
-              this.videoElement,
-              0,
-              0,
-              this.canvas.width,
-              this.canvas.height
-            );
-          }
+        if (this.videoElement && this.videoElement.readyState >= 2) {
+          this.drawFrame(this.videoElement);
         }
         this.animationFrameId = requestAnimationFrame(render);
       };
@@ -140,6 +288,12 @@ export class WebRTCVideoRenderer {
   }
 
   cleanup(): void {
+    if (this.workerStream) {
+      this.postToWorker({ type: "stop" });
+      this.workerStream = null;
+      this.onWorkerRenderingCallback?.(false);
+    }
+
     if (this.abortController) {
       this.abortController.abort();
       this.abortController = null;
@@ -156,4 +310,11 @@ export class WebRTCVideoRenderer {
       this.videoElement = null;
     }
   }
+
+  // Also releases the render worker, whose canvas can't be reused afterwards
+  destroy(): void {
+    this.cleanup();
+    this.terminateWorker();
+    this.workerCanvas = null;
+  }
 }
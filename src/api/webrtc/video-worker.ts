@@ -0,0 +1,96 @@
+// WebRTC Video Worker - draws WebCodecs frames to an OffscreenCanvas so that
+// presentation does not compete with React renders on the main thread
+
+import {
+  DEFAULT_VIDEO_FILTER_SETTINGS,
+  WebGLFrameRenderer,
+} from "../webgl-renderer";
+import type { VideoWorkerMessage } from "./types";
+
+let canvas: OffscreenCanvas | null = null;
+let renderer: WebGLFrameRenderer | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+let reader: ReadableStreamDefaultReader<VideoFrame> | null = null;
+let settings = { ...DEFAULT_VIDEO_FILTER_SETTINGS };
+
+function setupCanvas(offscreen: OffscreenCanvas): void {
+  canvas = offscreen;
+
+  // A canvas can only ever hold one context type, so WebGL is used for every
+  // setting (the defaults render like the 2D path) and 2D is the fallback
+  const webglRenderer = new WebGLFrameRenderer();
+  if (webglRenderer.initialize(offscreen)) {
+    webglRenderer.setSettings(settings);
+    renderer = webglRenderer;
+  } else {
+    context = offscreen.getContext("2d", {
+      alpha: false,
+      desynchronized: true,
+    });
+  }
+}
+
+function drawFrame(frame: VideoFrame): void {
+  if (renderer) {
+    renderer.draw(frame);
+  } else if (context && canvas) {
+    context.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  }
+}
+
+async function stopStream(): Promise<void> {
+  const current = reader;
+  reader = null;
+  if (current) {
+    await current.cancel().catch(() => {});
+  }
+}
+
+async function renderStream(
+  readable: ReadableStream<VideoFrame>
+): Promise<void> {
+  await stopStream();
+
+  const streamReader = readable.getReader();
+  reader = streamReader;
+
+  try {
+    while (reader === streamReader) {
+      const { done, value: frame } = await streamReader.read();
+      if (done) break;
+
+      if (frame) {
+        if (reader === streamReader) {
+          drawFrame(frame);
+        }
+        frame.close();
+      }
+    }
+  } catch (error) {
+    console.error("[WebRTC Video Worker] Render error:", error);
+    self.postMessage({ type: "error", message: String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<VideoWorkerMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case "init":
+      setupCanvas(message.canvas);
+      break;
+    case "stream":
+      renderStream(message.readable);
+      break;
+    case "filter":
+      settings = message.settings;
+      renderer?.setSettings(settings);
+      break;
+    case "resize":
+      renderer?.setOutputSize(message.width, message.height);
+      break;
+    case "stop":
+      stopStream();
+      break;
+  }
+};
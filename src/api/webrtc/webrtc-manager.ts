@@ -1,7 +1,32 @@
 import { io, Socket } from "socket.io-client";
-import { getSocketUrl, ICE_SERVERS } from "./config";
+import {
+  getSocketUrl,
+  fetchIceConfig,
+  buildPeerConnectionConfig,
+  isIceConfigExpired,
+  type IceConfig,
+} from "./config";
 import type { AudioData } from "./types";
-import { decodeADPCM } from "./adpcm-decoder";
+import {
+  AudioPacketDecoder,
+  getSupportedAudioCodecs,
+  parseAudioPacket,
+} from "../audio-codecs";
+import {
+  encodeHeldButtons,
+  encodeInput,
+  encodeInputState,
+  type HeldButtons,
+  type InputEvent,
+  type InputStateFrame,
+} from "../input-protocol";
+
+// "disconnected" often recovers on its own (e.g. a brief Wi-Fi hiccup), so
+// give ICE a moment before forcing a restart
+const DISCONNECTED_GRACE_MS = 2000;
+const ICE_RESTART_TIMEOUT_MS = 10000;
+const MAX_ICE_RESTART_ATTEMPTS = 3;
+const CLOSE_SESSION_TIMEOUT_MS = 3000;
 
 // WebRTC Manager for low-latency streaming
 export class WebRTCManager {
@@ -11,13 +36,21 @@ export class WebRTCManager {
   private audioDataChannel: RTCDataChannel | null = null;
   private webrtcSessionId: string | null = null;
   private _gameSessionId: string | null = null;
+  private iceConfig: IceConfig | null = null;
 
   private onVideoTrackCallback?: (stream: MediaStream) => void;
   private onAudioTrackCallback?: (stream: MediaStream) => void;
   private onAudioDataCallback?: (audioData: AudioData) => void;
+  private audioDecoder = new AudioPacketDecoder();
   private onConnectedCallback?: () => void;
   private onDisconnectedCallback?: () => void;
   private onErrorCallback?: (error: Error) => void;
+  private onRecoveringCallback?: (attempt: number) => void;
+  private onRecoveryFailedCallback?: () => void;
+
+  private iceRestartAttempts = 0;
+  private iceRestartTimer: ReturnType<typeof setTimeout> | null = null;
+  private isRecovering = false;
 
   get gameSessionId(): string | null {
     return this._gameSessionId;
@@ -30,11 +63,22 @@ export class WebRTCManager {
       transports: ["websocket"],
     });
 
-    this.socket.on("connect", () => {});
+    this.socket.on("connect", () => {
+      // Signaling came back after a network change: renegotiate if the
+      // peer connection didn't survive it
+      if (this.isRecovering && this.webrtcSessionId) {
+        this.clearIceRestartTimer();
+        this.runIceRestart();
+      }
+    });
 
-    this.socket.on("disconnect", () => {
-      this.cleanup();
-      this.onDisconnectedCallback?.();
+    this.socket.on("disconnect", (reason) => {
+      // Socket.IO reconnects the signaling socket by itself; keep the peer
+      // connection alive so media can keep flowing or be restarted
+      if (reason === "io client disconnect" || !this.peerConnection) {
+        this.cleanup();
+        this.onDisconnectedCallback?.();
+      }
     });
 
     this.socket.on(
@@ -60,11 +104,12 @@ export class WebRTCManager {
     }
 
     this._gameSessionId = gameSessionId;
+    this.iceConfig = await fetchIceConfig();
 
     return new Promise((resolve) => {
       this.socket!.emit(
         "create-session",
-        { gameSessionId },
+        { gameSessionId, audioCodecs: getSupportedAudioCodecs() },
         async (response: {
           success: boolean;
           sessionId?: string;
@@ -93,12 +138,9 @@ export class WebRTCManager {
     offer: RTCSessionDescriptionInit
   ): Promise<boolean> {
     try {
-      this.peerConnection = new RTCPeerConnection({
-        iceServers: ICE_SERVERS,
-        iceCandidatePoolSize: 10,
-        bundlePolicy: "max-bundle",
-        rtcpMuxPolicy: "require",
-      });
+      this.peerConnection = new RTCPeerConnection(
+        buildPeerConnectionConfig(this.iceConfig ?? (await fetchIceConfig()))
+      );
 
       this.setupPeerConnectionHandlers();
 
@@ -151,9 +193,14 @@ export class WebRTCManager {
       const state = this.peerConnection?.connectionState;
 
       if (state === "connected") {
+        this.clearIceRestartTimer();
+        this.iceRestartAttempts = 0;
+        this.isRecovering = false;
         this.onConnectedCallback?.();
-      } else if (state === "disconnected" || state === "failed") {
-        this.onDisconnectedCallback?.();
+      } else if (state === "disconnected") {
+        this.scheduleIceRestart(DISCONNECTED_GRACE_MS);
+      } else if (state === "failed") {
+        this.scheduleIceRestart(0);
       }
     };
 
@@ -184,11 +231,174 @@ export class WebRTCManager {
     };
   }
 
+  private scheduleIceRestart(delayMs: number): void {
+    if (this.iceRestartTimer) return;
+
+    this.isRecovering = true;
+    this.iceRestartTimer = setTimeout(() => {
+      this.iceRestartTimer = null;
+      if (this.peerConnection?.connectionState !== "connected") {
+        this.runIceRestart();
+      }
+    }, delayMs);
+  }
+
+  private clearIceRestartTimer(): void {
+    if (this.iceRestartTimer) {
+      clearTimeout(this.iceRestartTimer);
+      this.iceRestartTimer = null;
+    }
+  }
+
+  // restartIce from a callback: an unexpected failure is retried like an
+  // unanswered request instead of becoming an unhandled rejection
+  private runIceRestart(): void {
+    void this.restartIce().catch((error) => {
+      console.error("[WebRTC] ICE restart failed:", error);
+      this.scheduleIceRestart(ICE_RESTART_TIMEOUT_MS / 4);
+    });
+  }
+
+  // Ask the server (the offerer) for an ICE-restart offer and answer it on
+  // the existing peer connection, keeping the same webrtcSessionId
+  private async restartIce(): Promise<void> {
+    if (!this.peerConnection || !this.webrtcSessionId) return;
+
+    if (this.iceRestartAttempts >= MAX_ICE_RESTART_ATTEMPTS) {
+      this.giveUpRecovery();
+      return;
+    }
+
+    // Signaling is down too: its "connect" handler resumes the restart as
+    // soon as it's back, this timer only bounds how long we wait for it
+    if (!this.socket?.connected) {
+      this.iceRestartAttempts++;
+      this.scheduleIceRestart(ICE_RESTART_TIMEOUT_MS / 2);
+      return;
+    }
+
+    this.iceRestartAttempts++;
+    this.onRecoveringCallback?.(this.iceRestartAttempts);
+
+    // TURN credentials may have expired during a long session. Only the ICE
+    // servers are swapped: changing iceCandidatePoolSize on a live connection
+    // throws, and a failed refresh keeps the current servers.
+    if (!this.iceConfig || isIceConfigExpired(this.iceConfig)) {
+      try {
+        const iceConfig = await fetchIceConfig();
+        if (!this.peerConnection || !this.socket?.connected) return;
+        const { iceServers, iceTransportPolicy } =
+          buildPeerConnectionConfig(iceConfig);
+        this.peerConnection.setConfiguration({
+          ...this.peerConnection.getConfiguration(),
+          iceServers,
+          iceTransportPolicy,
+        });
+        this.iceConfig = iceConfig;
+      } catch (error) {
+        console.warn(
+          "[WebRTC] ICE config refresh failed, keeping current servers:",
+          error
+        );
+      }
+      if (!this.peerConnection || !this.socket?.connected) return;
+    }
+
+    // A request the server never answers counts as a rejection, so the
+    // retry budget still runs out and reaches giveUpRecovery
+    this.socket.timeout(ICE_RESTART_TIMEOUT_MS).emit(
+      "restart-ice",
+      { sessionId: this.webrtcSessionId },
+      async (
+        err: Error | null,
+        response?: {
+          success: boolean;
+          offer?: RTCSessionDescriptionInit;
+          error?: string;
+        }
+      ) => {
+        if (err || !response?.success || !response.offer) {
+          console.warn(
+            "[WebRTC] ICE restart rejected:",
+            err?.message ?? response?.error
+          );
+          this.scheduleIceRestart(ICE_RESTART_TIMEOUT_MS / 4);
+          return;
+        }
+
+        const renegotiated = await this.renegotiate(response.offer);
+        if (!renegotiated) {
+          this.scheduleIceRestart(ICE_RESTART_TIMEOUT_MS / 4);
+          return;
+        }
+
+        // Give the new candidates time to connect before trying again
+        this.scheduleIceRestart(ICE_RESTART_TIMEOUT_MS);
+      }
+    );
+  }
+
+  private async renegotiate(
+    offer: RTCSessionDescriptionInit
+  ): Promise<boolean> {
+    if (!this.peerConnection) return false;
+
+    try {
+      await this.peerConnection.setRemoteDescription(
+        new RTCSessionDescription(offer)
+      );
+      const answer = await this.peerConnection.createAnswer();
+      await this.peerConnection.setLocalDescription(answer);
+
+      return new Promise((resolve) => {
+        this.socket!.timeout(ICE_RESTART_TIMEOUT_MS).emit(
+          "answer",
+          {
+            sessionId: this.webrtcSessionId,
+            answer: this.peerConnection!.localDescription,
+          },
+          (
+            err: Error | null,
+            response?: { success: boolean; error?: string }
+          ) => {
+            if (err || !response?.success) {
+              console.error(
+                "Failed to send ICE restart answer:",
+                err?.message ?? response?.error
+              );
+            }
+            resolve(!err && !!response?.success);
+          }
+        );
+      });
+    } catch (error) {
+      console.error("[WebRTC] Renegotiation failed:", error);
+      return false;
+    }
+  }
+
+  private giveUpRecovery(): void {
+    this.clearIceRestartTimer();
+    this.isRecovering = false;
+    this.iceRestartAttempts = 0;
+    console.warn("[WebRTC] ICE restart failed, giving up on WebRTC");
+
+    if (this.onRecoveryFailedCallback) {
+      this.onRecoveryFailedCallback();
+    } else {
+      this.onDisconnectedCallback?.();
+    }
+  }
+
   private setupAudioDataChannelHandlers(): void {
     if (!this.audioDataChannel) return;
 
     this.audioDataChannel.binaryType = "arraybuffer";
 
+    this.audioDecoder.onDecoded((audio) => {
+      this.onAudioDataCallback?.(audio);
+    });
+
     this.audioDataChannel.onopen = () => {};
 
     this.audioDataChannel.onclose = () => {};
@@ -199,58 +409,7 @@ export class WebRTCManager {
 
     this.audioDataChannel.onmessage = (event) => {
       try {
-        const buffer = event.data as ArrayBuffer;
-        const dataView = new DataView(buffer);
-
-        if (Math.random() < 0.01) {
-        }
-        const sampleRate = dataView.getUint32(0, true);
-        const channels = dataView.getUint32(4, true);
-
-        // Check if we have the new format (16 bytes header) or old (12 bytes)
-        // We can guess by checking buffer length vs expected length
-        // But since we updated server, let's assume new format or check format field
-
-        let format = 0; // 0=PCM
-        let dataOffset = 12;
-        let dataLength = 0;
-
-        // Heuristic: if buffer length >= 16, check if 3rd word looks like format (0 or 1)
-        // and 4th word looks like length matching buffer size
-        if (buffer.byteLength >= 16) {
-          const potentialFormat = dataView.getUint32(8, true);
-          const potentialLength = dataView.getUint32(12, true);
-
-          if (
-            (potentialFormat === 0 || potentialFormat === 1) &&
-            16 + potentialLength === buffer.byteLength
-          ) {
-            format = potentialFormat;
-            dataLength = potentialLength;
-            dataOffset = 16;
-          } else {
-            dataLength = dataView.getUint32(8, true);
-            dataOffset = 12;
-          }
-        } else {
-          dataLength = dataView.getUint32(8, true);
-          dataOffset = 12;
-        }
-
-        let audioData: Int16Array;
-
-        if (format === 1) {
-          const adpcmData = new Uint8Array(buffer, dataOffset, dataLength);
-          audioData = decodeADPCM(adpcmData, channels);
-        } else {
-          audioData = new Int16Array(buffer, dataOffset, dataLength / 2);
-        }
-
-        this.onAudioDataCallback?.({
-          samples: audioData,
-          sampleRate,
-          channels,
-        });
+        this.audioDecoder.decode(parseAudioPacket(event.data as ArrayBuffer));
       } catch (error) {
         console.error("[WebRTC] Failed to parse audio data:", error);
       }
@@ -271,7 +430,7 @@ export class WebRTCManager {
     this.dataChannel.onmessage = () => {};
   }
 
-  sendInput(button: string, state: "down" | "up"): void {
+  sendInput(event: InputEvent): void {
     if (!this.dataChannel) {
       console.warn("[WebRTC] Data channel not available");
       return;
@@ -284,39 +443,27 @@ export class WebRTCManager {
       return;
     }
 
-    // Binary protocol for ultra-low latency (2 bytes vs ~80 bytes JSON)
-    // Byte 0: Button ID
-    // Byte 1: State (0=UP, 1=DOWN)
-    const BUTTON_MAP: Record<string, number> = {
-      A: 0,
-      B: 1,
-      SELECT: 2,
-      START: 3,
-      UP: 4,
-      DOWN: 5,
-      LEFT: 6,
-      RIGHT: 7,
-      L: 8,
-      R: 9,
-    };
-
-    const buttonId = BUTTON_MAP[button];
-    if (buttonId !== undefined) {
-      const buffer = new Uint8Array(2);
-      buffer[0] = buttonId;
-      buffer[1] = state === "down" ? 1 : 0;
+    const buffer = encodeInput(event);
+    if (buffer) {
       this.dataChannel.send(buffer);
     } else {
-      const message = JSON.stringify({
-        type: "input",
-        button,
-        state,
-        timestamp: Date.now(),
-      });
+      const message = JSON.stringify({ type: "input", ...event });
       this.dataChannel.send(message);
     }
   }
 
+  // Periodic, so a channel that isn't open yet is skipped without a warning
+  sendHeldButtons(held: HeldButtons): void {
+    if (this.dataChannel?.readyState !== "open") return;
+    this.dataChannel.send(encodeHeldButtons(held));
+  }
+
+  // Also sent as a heartbeat, so a closed channel is skipped quietly
+  sendInputState(state: InputStateFrame): void {
+    if (this.dataChannel?.readyState !== "open") return;
+    this.dataChannel.send(encodeInputState(state));
+  }
+
   onVideoTrack(callback: (stream: MediaStream) => void): void {
     this.onVideoTrackCallback = callback;
   }
@@ -341,6 +488,16 @@ export class WebRTCManager {
     this.onErrorCallback = callback;
   }
 
+  onRecovering(callback: (attempt: number) => void): void {
+    this.onRecoveringCallback = callback;
+  }
+
+  // Called when ICE restarts are exhausted; without it, recovery failure is
+  // reported through onDisconnected
+  onRecoveryFailed(callback: () => void): void {
+    this.onRecoveryFailedCallback = callback;
+  }
+
   isConnected(): boolean {
     return this.peerConnection?.connectionState === "connected";
   }
@@ -349,6 +506,35 @@ export class WebRTCManager {
     return this.socket?.connected ?? false;
   }
 
+  // Opens the signaling socket if needed; resolves false on timeout
+  ensureConnected(timeoutMs: number = 3000): Promise<boolean> {
+    if (!this.socket) this.connect();
+    const socket = this.socket!;
+    if (socket.connected) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const onConnect = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        socket.off("connect", onConnect);
+        resolve(false);
+      }, timeoutMs);
+      socket.once("connect", onConnect);
+    });
+  }
+
+  async getStats(): Promise<RTCStatsReport | null> {
+    if (!this.peerConnection) return null;
+    try {
+      return await this.peerConnection.getStats();
+    } catch (error) {
+      console.warn("[WebRTC] Failed to read stats:", error);
+      return null;
+    }
+  }
+
   isDataChannelReady(): boolean {
     return this.dataChannel?.readyState === "open";
   }
@@ -364,6 +550,8 @@ export class WebRTCManager {
       success: boolean;
       stateData?: string;
       thumbnail?: string;
+      // Emulator frame the state was captured on
+      frame?: number;
       error?: string;
     }) => void
   ): void {
@@ -397,13 +585,18 @@ export class WebRTCManager {
     this.socket.emit("load-state", { gameSessionId, stateData }, callback);
   }
 
+  // Resolves once the server has closed its side, or after
+  // CLOSE_SESSION_TIMEOUT_MS: a lost ack must not hold up a transport switch
   async closeSession(): Promise<void> {
     if (this.socket?.connected && this.webrtcSessionId) {
       return new Promise((resolve) => {
-        this.socket!.emit(
+        this.socket!.timeout(CLOSE_SESSION_TIMEOUT_MS).emit(
           "close-session",
           { sessionId: this.webrtcSessionId },
-          () => {
+          (err: Error | null) => {
+            if (err) {
+              console.warn("[WebRTC] close-session not acknowledged:", err);
+            }
             this.cleanup();
             resolve();
           }
@@ -414,6 +607,10 @@ export class WebRTCManager {
   }
 
   private cleanup(): void {
+    this.clearIceRestartTimer();
+    this.isRecovering = false;
+    this.iceRestartAttempts = 0;
+
     if (this.dataChannel) {
       this.dataChannel.close();
       this.dataChannel = null;
@@ -423,6 +620,7 @@ export class WebRTCManager {
       this.audioDataChannel.close();
       this.audioDataChannel = null;
     }
+    this.audioDecoder.close();
 
     if (this.peerConnection) {
       this.peerConnection.close();
@@ -430,6 +628,7 @@ export class WebRTCManager {
     }
 
     this.webrtcSessionId = null;
+    this.iceConfig = null;
   }
 
   disconnect(): void {
@@ -10,18 +10,40 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import {
+  type EmulatorHotkey,
   type InputButton,
   type KeyMappings,
+  EMULATOR_HOTKEYS,
+  isEmulatorHotkey,
+  type GamepadProfile,
   loadKeyMappings,
   saveKeyMappings,
   resetKeyMappings,
   getKeyDisplayName,
+  getConnectedGamepads,
+  loadGamepadProfile,
+  saveGamepadProfile,
+  resetGamepadProfile,
+  getGamepadButtonDisplayName,
 } from "@/api/play.api";
+import {
+  type RomInputProfile,
+  loadRomInputProfile,
+  saveRomInputProfile,
+} from "@/api/input-macros";
+import { InputAutomationEditor } from "@/components/InputAutomationEditor";
+
+// "automation" is the turbo and macros tab
+type InputDevice = "keyboard" | "gamepad" | "automation";
 
 interface ControlsConfigDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onMappingsChange: (mappings: KeyMappings) => void;
+  onGamepadProfileChange?: (gamepadId: string, profile: GamepadProfile) => void;
+  // Turbo and macros are per ROM, so the tab needs one
+  romId?: string;
+  onInputProfileChange?: (profile: RomInputProfile) => void;
 }
 
 // Button labels and descriptions
@@ -91,6 +113,15 @@ const BUTTON_INFO: Record<
   },
 };
 
+const HOTKEY_LABELS: Record<EmulatorHotkey, string> = {
+  PAUSE: "Pause / Reprendre",
+  RESET: "Reset",
+  FAST_FORWARD: "Avance rapide (maintenir)",
+  SPEED_DOWN: "Vitesse -",
+  SPEED_UP: "Vitesse +",
+  REWIND: "Retour arrière (maintenir)",
+};
+
 const BUTTON_ORDER: InputButton[] = [
   "UP",
   "DOWN",
@@ -108,24 +139,40 @@ export function ControlsConfigDialog({
   open,
   onOpenChange,
   onMappingsChange,
+  onGamepadProfileChange,
+  romId,
+  onInputProfileChange,
 }: ControlsConfigDialogProps) {
   const [mappings, setMappings] = useState<KeyMappings>(loadKeyMappings);
-  const [listeningFor, setListeningFor] = useState<InputButton | null>(null);
+  const [listeningFor, setListeningFor] = useState<
+    InputButton | EmulatorHotkey | null
+  >(null);
   const [hasChanges, setHasChanges] = useState(false);
+  const [device, setDevice] = useState<InputDevice>("keyboard");
+  const [gamepad, setGamepad] = useState<{ id: string; index: number } | null>(
+    null
+  );
+  const [gamepadProfile, setGamepadProfile] = useState<GamepadProfile | null>(
+    null
+  );
+  const [inputProfile, setInputProfile] = useState<RomInputProfile | null>(
+    null
+  );
 
   // Load mappings when dialog opens
   useEffect(() => {
     if (open) {
       setMappings(loadKeyMappings());
+      setInputProfile(romId ? loadRomInputProfile(romId) : null);
       setHasChanges(false);
       setListeningFor(null);
     }
-  }, [open]);
+  }, [open, romId]);
 
   // Handle key press for mapping
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
-      if (!listeningFor) return;
+      if (!listeningFor || device !== "keyboard") return;
 
       e.preventDefault();
       e.stopPropagation();
@@ -154,7 +201,7 @@ export function ControlsConfigDialog({
       setListeningFor(null);
       setHasChanges(true);
     },
-    [listeningFor, mappings]
+    [listeningFor, device, mappings]
   );
 
   // Add/remove key listener
@@ -165,20 +212,143 @@ export function ControlsConfigDialog({
     }
   }, [listeningFor, handleKeyDown]);
 
+  // Track the first connected controller while the gamepad tab is open
+  useEffect(() => {
+    if (!open || device !== "gamepad") return;
+
+    let currentId: string | null = null;
+    let frameId = 0;
+
+    const poll = () => {
+      const pad = getConnectedGamepads()[0] ?? null;
+      if ((pad?.id ?? null) !== currentId) {
+        currentId = pad?.id ?? null;
+        setGamepad(pad ? { id: pad.id, index: pad.index } : null);
+        setGamepadProfile(pad ? loadGamepadProfile(pad.id) : null);
+        setListeningFor(null);
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [open, device]);
+
+  // Capture the next gamepad button pressed for the selected GBA button
+  useEffect(() => {
+    if (!listeningFor || device !== "gamepad" || !gamepad) return;
+    // Emulator hotkeys are keyboard only, except rewind
+    if (listeningFor !== "REWIND" && isEmulatorHotkey(listeningFor)) return;
+
+    let held: Set<number> | null = null;
+    let frameId = 0;
+
+    const poll = () => {
+      const pad = navigator.getGamepads()[gamepad.index];
+      if (!pad) {
+        frameId = requestAnimationFrame(poll);
+        return;
+      }
+
+      const pressed = new Set<number>();
+      pad.buttons.forEach((btn, index) => {
+        if (btn.pressed) pressed.add(index);
+      });
+
+      // Ignore buttons that were already held when capture started
+      const newlyPressed = held
+        ? Array.from(pressed).find((index) => !held!.has(index))
+        : undefined;
+      held = pressed;
+
+      if (newlyPressed === undefined) {
+        frameId = requestAnimationFrame(poll);
+        return;
+      }
+
+      setGamepadProfile((prev) => {
+        if (!prev) return prev;
+        if (isEmulatorHotkey(listeningFor)) {
+          return { ...prev, rewindButton: newlyPressed };
+        }
+        const existingButton = Object.entries(prev.mappings).find(
+          ([btn, index]) => index === newlyPressed && btn !== listeningFor
+        );
+        const nextMappings = {
+          ...prev.mappings,
+          [listeningFor]: newlyPressed,
+        };
+        if (existingButton) {
+          // Swap the buttons
+          nextMappings[existingButton[0] as InputButton] =
+            prev.mappings[listeningFor];
+        }
+        return { ...prev, mappings: nextMappings };
+      });
+      setListeningFor(null);
+      setHasChanges(true);
+    };
+    frameId = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [listeningFor, device, gamepad]);
+
+  const handleStickThresholdChange = (stickThreshold: number) => {
+    setGamepadProfile((prev) => (prev ? { ...prev, stickThreshold } : prev));
+    setHasChanges(true);
+  };
+
   // Save changes
   const handleSave = () => {
     saveKeyMappings(mappings);
     onMappingsChange(mappings);
+    if (gamepad && gamepadProfile) {
+      saveGamepadProfile(gamepad.id, gamepadProfile);
+      onGamepadProfileChange?.(gamepad.id, gamepadProfile);
+    }
+    if (romId && inputProfile) {
+      saveRomInputProfile(romId, inputProfile);
+      onInputProfileChange?.(inputProfile);
+    }
     onOpenChange(false);
   };
 
   // Reset to defaults
   const handleReset = () => {
-    const defaults = resetKeyMappings();
-    setMappings(defaults);
+    if (device === "automation") {
+      setInputProfile({ turbo: {}, macros: [] });
+    } else if (device === "gamepad") {
+      if (!gamepad) return;
+      setGamepadProfile(resetGamepadProfile(gamepad.id));
+    } else {
+      const defaults = resetKeyMappings();
+      setMappings(defaults);
+    }
+    setHasChanges(true);
+  };
+
+  const getMappingDisplayName = (button: InputButton) => {
+    if (device === "gamepad") {
+      return gamepadProfile
+        ? getGamepadButtonDisplayName(
+            gamepadProfile.mappings[button],
+            gamepadProfile.layout
+          )
+        : "—";
+    }
+    return getKeyDisplayName(mappings[button]);
+  };
+
+  const handleInputProfileChange = (profile: RomInputProfile) => {
+    setInputProfile(profile);
     setHasChanges(true);
   };
 
+  const handleDeviceChange = (nextDevice: InputDevice) => {
+    setListeningFor(null);
+    setDevice(nextDevice);
+  };
+
   // Cancel and close
   const handleCancel = () => {
     setListeningFor(null);
@@ -212,14 +382,93 @@ export function ControlsConfigDialog({
             Configuration des Commandes
           </DialogTitle>
           <DialogDescription className="text-slate-400">
-            Cliquez sur une touche puis appuyez sur une nouvelle touche pour la
-            modifier.
+            {device === "automation"
+              ? "Tir automatique et macros, enregistrés pour ce jeu."
+              : device === "gamepad"
+              ? "Cliquez sur une touche puis appuyez sur un bouton de la manette pour la modifier."
+              : "Cliquez sur une touche puis appuyez sur une nouvelle touche pour la modifier."}
           </DialogDescription>
         </DialogHeader>
 
         <DialogPanel>
           <div className="py-4">
-            <div className="grid grid-cols-2 gap-3">
+            <div
+              className={`grid ${
+                romId ? "grid-cols-3" : "grid-cols-2"
+              } gap-2 mb-4`}
+            >
+              {(romId
+                ? (["keyboard", "gamepad", "automation"] as const)
+                : (["keyboard", "gamepad"] as const)
+              ).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => handleDeviceChange(option)}
+                  className={`p-2 rounded-lg text-xs font-mono transition-all ${
+                    device === option
+                      ? "bg-purple-600/50 text-purple-200 border border-purple-500/50"
+                      : "bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:bg-slate-700/50"
+                  }`}
+                >
+                  {option === "keyboard"
+                    ? "Clavier"
+                    : option === "gamepad"
+                    ? "Manette"
+                    : "Turbo / Macros"}
+                </button>
+              ))}
+            </div>
+
+            {device === "gamepad" && (
+              <div className="mb-4 p-3 bg-slate-800/50 border border-slate-700/50 rounded-xl">
+                {gamepad && gamepadProfile ? (
+                  <>
+                    <p className="text-xs text-slate-300 font-mono truncate">
+                      {gamepad.id}
+                    </p>
+                    <p className="text-[10px] text-slate-500 font-mono uppercase mt-1">
+                      Layout: {gamepadProfile.layout}
+                    </p>
+                    <label className="flex items-center justify-between gap-3 mt-3 text-xs text-slate-400">
+                      <span>Seuil du stick analogique</span>
+                      <input
+                        type="range"
+                        min={0.1}
+                        max={0.9}
+                        step={0.05}
+                        value={gamepadProfile.stickThreshold}
+                        onChange={(e) =>
+                          handleStickThresholdChange(Number(e.target.value))
+                        }
+                        className="flex-1 accent-purple-500"
+                      />
+                      <span className="w-8 text-right font-mono text-cyan-300">
+                        {gamepadProfile.stickThreshold.toFixed(2)}
+                      </span>
+                    </label>
+                  </>
+                ) : (
+                  <p className="text-xs text-slate-400 text-center">
+                    Aucune manette détectée. Branchez une manette et appuyez sur
+                    un bouton.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {device === "automation" && inputProfile && (
+              <InputAutomationEditor
+                profile={inputProfile}
+                onChange={handleInputProfileChange}
+                buttons={BUTTON_ORDER}
+              />
+            )}
+
+            <div
+              className={`grid grid-cols-2 gap-3 ${
+                device === "automation" ? "hidden" : ""
+              }`}
+            >
               {BUTTON_ORDER.map((button) => {
                 const info = BUTTON_INFO[button];
                 const isListening = listeningFor === button;
@@ -228,6 +477,7 @@ export function ControlsConfigDialog({
                   <button
                     key={button}
                     onClick={() => setListeningFor(button)}
+                    disabled={device === "gamepad" && !gamepadProfile}
                     className={`group relative flex items-center justify-between p-3.5 rounded-xl border backdrop-blur-sm transition-all duration-200 shadow-lg ${
                       isListening
                         ? "bg-gradient-to-br from-purple-500/50 to-indigo-600/50 border-purple-400 ring-2 ring-purple-400/70 scale-[1.02]"
@@ -254,23 +504,95 @@ export function ControlsConfigDialog({
                           : "bg-slate-900/60 text-cyan-300 border border-slate-700/50"
                       }`}
                     >
-                      {isListening
-                        ? "..."
-                        : getKeyDisplayName(mappings[button])}
+                      {isListening ? "..." : getMappingDisplayName(button)}
                     </kbd>
                   </button>
                 );
               })}
             </div>
 
+            {device === "keyboard" && (
+              <div className="mt-4">
+                <h4 className="text-xs font-bold text-slate-400 mb-2">
+                  Raccourcis de l'émulateur
+                </h4>
+                <div className="space-y-1.5">
+                  {EMULATOR_HOTKEYS.map((hotkey) => {
+                    const isListening = listeningFor === hotkey;
+                    return (
+                      <button
+                        key={hotkey}
+                        onClick={() => setListeningFor(hotkey)}
+                        className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-xs transition-all ${
+                          isListening
+                            ? "bg-purple-500/30 border-purple-400 ring-1 ring-purple-400/70"
+                            : "bg-slate-800/50 border-slate-700/50 hover:bg-slate-700/50"
+                        }`}
+                      >
+                        <span className="text-slate-300">
+                          {HOTKEY_LABELS[hotkey]}
+                        </span>
+                        <kbd
+                          className={`px-2 py-0.5 rounded font-mono font-bold ${
+                            isListening
+                              ? "text-purple-100 animate-pulse"
+                              : "bg-slate-900/60 text-cyan-300"
+                          }`}
+                        >
+                          {isListening
+                            ? "..."
+                            : getKeyDisplayName(mappings[hotkey])}
+                        </kbd>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {device === "gamepad" && gamepadProfile && (
+              <div className="mt-4">
+                <button
+                  onClick={() => setListeningFor("REWIND")}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg border text-xs transition-all ${
+                    listeningFor === "REWIND"
+                      ? "bg-purple-500/30 border-purple-400 ring-1 ring-purple-400/70"
+                      : "bg-slate-800/50 border-slate-700/50 hover:bg-slate-700/50"
+                  }`}
+                >
+                  <span className="text-slate-300">{HOTKEY_LABELS.REWIND}</span>
+                  <kbd
+                    className={`px-2 py-0.5 rounded font-mono font-bold ${
+                      listeningFor === "REWIND"
+                        ? "text-purple-100 animate-pulse"
+                        : "bg-slate-900/60 text-cyan-300"
+                    }`}
+                  >
+                    {listeningFor === "REWIND"
+                      ? "..."
+                      : gamepadProfile.rewindButton !== undefined
+                      ? getGamepadButtonDisplayName(
+                          gamepadProfile.rewindButton,
+                          gamepadProfile.layout
+                        )
+                      : "—"}
+                  </kbd>
+                </button>
+              </div>
+            )}
+
             {listeningFor && (
               <div className="mt-4 p-4 bg-gradient-to-r from-purple-900/40 to-indigo-900/40 border border-purple-500/50 rounded-xl text-center backdrop-blur-sm shadow-lg">
                 <div className="flex items-center justify-center gap-2 mb-2">
                   <div className="w-2 h-2 bg-purple-400 rounded-full animate-ping" />
                   <p className="text-purple-200 text-sm font-medium">
-                    Appuyez sur une touche pour{" "}
+                    {device === "gamepad"
+                      ? "Appuyez sur un bouton pour"
+                      : "Appuyez sur une touche pour"}{" "}
                     <span className="font-bold text-purple-100">
-                      {BUTTON_INFO[listeningFor].label}
+                      {isEmulatorHotkey(listeningFor)
+                        ? HOTKEY_LABELS[listeningFor]
+                        : BUTTON_INFO[listeningFor].label}
                     </span>
                   </p>
                 </div>
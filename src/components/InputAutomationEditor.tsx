@@ -0,0 +1,360 @@
+import { useEffect, useState } from "react";
+import {
+  type InputButton,
+  getConnectedGamepads,
+  getKeyDisplayName,
+} from "@/api/play.api";
+import {
+  type InputMacro,
+  type MacroStep,
+  type RomInputProfile,
+  createMacro,
+  TURBO_DEFAULT_RATE,
+  TURBO_MAX_RATE,
+  TURBO_MIN_RATE,
+} from "@/api/input-macros";
+
+interface InputAutomationEditorProps {
+  profile: RomInputProfile;
+  onChange: (profile: RomInputProfile) => void;
+  buttons: InputButton[];
+}
+
+type Capture = { macroId: string; kind: "key" | "gamepad" };
+
+const inputClassName =
+  "bg-slate-900/60 border border-slate-700/50 rounded-lg px-2 py-1 text-xs text-white font-mono";
+
+export function InputAutomationEditor({
+  profile,
+  onChange,
+  buttons,
+}: InputAutomationEditorProps) {
+  const [capture, setCapture] = useState<Capture | null>(null);
+
+  const updateMacro = (id: string, changes: Partial<InputMacro>) => {
+    onChange({
+      ...profile,
+      macros: profile.macros.map((macro) =>
+        macro.id === id ? { ...macro, ...changes } : macro
+      ),
+    });
+  };
+
+  const updateStep = (
+    macro: InputMacro,
+    index: number,
+    changes: Partial<MacroStep>
+  ) => {
+    updateMacro(macro.id, {
+      steps: macro.steps.map((step, i) =>
+        i === index ? { ...step, ...changes } : step
+      ),
+    });
+  };
+
+  const setTurbo = (button: InputButton, rate: number | undefined) => {
+    const turbo = { ...profile.turbo };
+    if (rate) {
+      turbo[button] = rate;
+    } else {
+      delete turbo[button];
+    }
+    onChange({ ...profile, turbo });
+  };
+
+  // Next key pressed becomes the macro's key
+  useEffect(() => {
+    if (capture?.kind !== "key") return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key !== "Escape") {
+        updateMacro(capture.macroId, {
+          binding: {
+            ...profile.macros.find((m) => m.id === capture.macroId)?.binding,
+            key: e.key,
+          },
+        });
+      }
+      setCapture(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  });
+
+  // Next gamepad button pressed becomes the macro's button
+  useEffect(() => {
+    if (capture?.kind !== "gamepad") return;
+
+    let held: Set<number> | null = null;
+    let frameId = 0;
+
+    const poll = () => {
+      const pressed = new Set<number>();
+      getConnectedGamepads().forEach((pad) =>
+        pad.buttons.forEach((btn, index) => {
+          if (btn.pressed) pressed.add(index);
+        })
+      );
+
+      // Ignore buttons that were already held when capture started
+      const newlyPressed = held
+        ? Array.from(pressed).find((index) => !held!.has(index))
+        : undefined;
+      held = pressed;
+
+      if (newlyPressed === undefined) {
+        frameId = requestAnimationFrame(poll);
+        return;
+      }
+
+      updateMacro(capture.macroId, {
+        binding: {
+          ...profile.macros.find((m) => m.id === capture.macroId)?.binding,
+          gamepadButton: newlyPressed,
+        },
+      });
+      setCapture(null);
+    };
+    frameId = requestAnimationFrame(poll);
+
+    return () => cancelAnimationFrame(frameId);
+  });
+
+  return (
+    <div className="space-y-4">
+      {/* Turbo */}
+      <div className="p-3 bg-slate-800/50 border border-slate-700/50 rounded-xl">
+        <h4 className="text-xs font-bold text-white mb-2">Turbo</h4>
+        <div className="space-y-1.5">
+          {buttons.map((button) => {
+            const rate = profile.turbo[button];
+            return (
+              <label
+                key={button}
+                className="flex items-center gap-3 text-xs text-slate-400"
+              >
+                <input
+                  type="checkbox"
+                  checked={rate !== undefined}
+                  onChange={(e) =>
+                    setTurbo(
+                      button,
+                      e.target.checked ? TURBO_DEFAULT_RATE : undefined
+                    )
+                  }
+                  className="accent-purple-500"
+                />
+                <span className="w-14 font-mono text-slate-300">{button}</span>
+                <input
+                  type="range"
+                  min={TURBO_MIN_RATE}
+                  max={TURBO_MAX_RATE}
+                  value={rate ?? TURBO_DEFAULT_RATE}
+                  disabled={rate === undefined}
+                  onChange={(e) => setTurbo(button, Number(e.target.value))}
+                  className="flex-1 accent-purple-500 disabled:opacity-40"
+                />
+                <span className="w-10 text-right font-mono text-cyan-300">
+                  {rate !== undefined ? `${rate}/s` : "—"}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Macros */}
+      <div className="space-y-3">
+        {profile.macros.map((macro) => (
+          <div
+            key={macro.id}
+            className="p-3 bg-slate-800/50 border border-slate-700/50 rounded-xl space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <input
+                value={macro.name}
+                onChange={(e) =>
+                  updateMacro(macro.id, { name: e.target.value })
+                }
+                className={`${inputClassName} flex-1`}
+              />
+              <button
+                onClick={() =>
+                  onChange({
+                    ...profile,
+                    macros: profile.macros.filter((m) => m.id !== macro.id),
+                  })
+                }
+                className="text-xs text-rose-400 hover:text-rose-300 px-2"
+              >
+                Supprimer
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+              <select
+                value={macro.timing}
+                onChange={(e) =>
+                  updateMacro(macro.id, {
+                    timing: e.target.value as InputMacro["timing"],
+                  })
+                }
+                className={inputClassName}
+              >
+                <option value="frames">Images</option>
+                <option value="ms">Millisecondes</option>
+              </select>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={macro.loop}
+                  onChange={(e) =>
+                    updateMacro(macro.id, { loop: e.target.checked })
+                  }
+                  className="accent-purple-500"
+                />
+                Boucle
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={macro.binding.touch ?? false}
+                  onChange={(e) =>
+                    updateMacro(macro.id, {
+                      binding: { ...macro.binding, touch: e.target.checked },
+                    })
+                  }
+                  className="accent-purple-500"
+                />
+                Bouton tactile
+              </label>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCapture({ macroId: macro.id, kind: "key" })}
+                className={`${inputClassName} flex-1 text-left`}
+              >
+                Touche:{" "}
+                <span className="text-cyan-300">
+                  {capture?.macroId === macro.id && capture.kind === "key"
+                    ? "..."
+                    : macro.binding.key
+                    ? getKeyDisplayName(macro.binding.key)
+                    : "—"}
+                </span>
+              </button>
+              <button
+                onClick={() =>
+                  setCapture({ macroId: macro.id, kind: "gamepad" })
+                }
+                className={`${inputClassName} flex-1 text-left`}
+              >
+                Manette:{" "}
+                <span className="text-cyan-300">
+                  {capture?.macroId === macro.id && capture.kind === "gamepad"
+                    ? "..."
+                    : macro.binding.gamepadButton !== undefined
+                    ? `B${macro.binding.gamepadButton}`
+                    : "—"}
+                </span>
+              </button>
+            </div>
+
+            <div className="space-y-1">
+              {macro.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={step.button}
+                    onChange={(e) =>
+                      updateStep(macro, index, {
+                        button: e.target.value as InputButton,
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    {buttons.map((button) => (
+                      <option key={button} value={button}>
+                        {button}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={step.state}
+                    onChange={(e) =>
+                      updateStep(macro, index, {
+                        state: e.target.value as MacroStep["state"],
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    <option value="down">Appui</option>
+                    <option value="up">Relâche</option>
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.delay}
+                    onChange={(e) =>
+                      updateStep(macro, index, {
+                        delay: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                    className={`${inputClassName} w-16`}
+                    title={
+                      macro.timing === "frames"
+                        ? "Attente avant l'étape (images)"
+                        : "Attente avant l'étape (ms)"
+                    }
+                  />
+                  <button
+                    onClick={() =>
+                      updateMacro(macro.id, {
+                        steps: macro.steps.filter((_, i) => i !== index),
+                      })
+                    }
+                    className="text-slate-500 hover:text-rose-400 text-xs px-1"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updateMacro(macro.id, {
+                    steps: [
+                      ...macro.steps,
+                      { button: "A", state: "down", delay: 0 },
+                    ],
+                  })
+                }
+                className="text-xs text-purple-300 hover:text-purple-200"
+              >
+                + Ajouter une étape
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() =>
+            onChange({
+              ...profile,
+              macros: [
+                ...profile.macros,
+                createMacro(`Macro ${profile.macros.length + 1}`),
+              ],
+            })
+          }
+          className="w-full p-2 rounded-lg text-xs font-mono bg-purple-600/30 text-purple-200 border border-purple-500/50 hover:bg-purple-600/50"
+        >
+          + Nouvelle macro
+        </button>
+      </div>
+    </div>
+  );
+}
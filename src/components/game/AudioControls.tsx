@@ -0,0 +1,87 @@
+import type { AudioSettings } from "@/lib/audio-mixer";
+
+interface AudioControlsProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  // Hides the volume slider, for the mobile control bar
+  compact?: boolean;
+  className?: string;
+}
+
+export function AudioControls({
+  settings,
+  onChange,
+  compact = false,
+  className = "",
+}: AudioControlsProps) {
+  const silent = settings.muted || settings.volume === 0;
+
+  return (
+    <div className={`flex items-center gap-1.5 ${className}`}>
+      <button
+        onClick={() => onChange({ ...settings, muted: !settings.muted })}
+        className={`rounded text-slate-300 hover:text-white ${
+          compact ? "p-1" : "p-1.5"
+        } ${silent ? "text-red-400" : ""}`}
+        title={settings.muted ? "Réactiver le son (M)" : "Couper le son (M)"}
+      >
+        <svg
+          className={compact ? "w-3.5 h-3.5" : "w-4 h-4"}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          {silent ? (
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15zM17 14l4-4m0 4l-4-4"
+            />
+          ) : (
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"
+            />
+          )}
+        </svg>
+      </button>
+
+      {!compact && (
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(settings.volume * 100)}
+          onChange={(e) =>
+            onChange({
+              ...settings,
+              volume: Number(e.target.value) / 100,
+              muted: false,
+            })
+          }
+          className="w-20 accent-cyan-500"
+          title={`Volume ${Math.round(settings.volume * 100)}%`}
+        />
+      )}
+
+      <button
+        onClick={() =>
+          onChange({ ...settings, speakerFilter: !settings.speakerFilter })
+        }
+        className={`rounded font-mono font-bold ${
+          compact ? "px-1 py-0.5 text-[9px]" : "px-1.5 py-1 text-[10px]"
+        } ${
+          settings.speakerFilter
+            ? "bg-purple-600 text-white"
+            : "bg-slate-700 text-slate-400 hover:bg-slate-600"
+        }`}
+        title="Filtre haut-parleur GBA"
+      >
+        GBA
+      </button>
+    </div>
+  );
+}
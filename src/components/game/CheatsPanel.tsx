@@ -0,0 +1,153 @@
+import { useState } from "react";
+import type { Cheat } from "@/api/cheats.api";
+import {
+  CHEAT_FORMAT_LABELS,
+  CHEAT_FORMATS,
+  CheatCodeError,
+  type CheatFormat,
+  parseCheatCode,
+} from "@/api/cheat-codes";
+
+interface CheatsPanelProps {
+  cheats: Cheat[];
+  // Loading or syncing problem reported by the page
+  message: string | null;
+  onAdd: (name: string, format: CheatFormat, code: string) => Promise<void>;
+  onToggle: (cheat: Cheat) => void;
+  onRename: (cheat: Cheat, name: string) => void;
+  onDelete: (cheat: Cheat) => void;
+}
+
+const inputClassName =
+  "bg-slate-900/60 border border-slate-700/50 rounded-lg px-2 py-1 text-xs text-white font-mono";
+
+export function CheatsPanel({
+  cheats,
+  message,
+  onAdd,
+  onToggle,
+  onRename,
+  onDelete,
+}: CheatsPanelProps) {
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<CheatFormat>("gameshark-v1");
+  const [code, setCode] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const handleAdd = async () => {
+    setFormError(null);
+    try {
+      parseCheatCode(code, format);
+    } catch (error) {
+      setFormError((error as CheatCodeError).message);
+      return;
+    }
+
+    setAdding(true);
+    try {
+      await onAdd(name.trim() || `Code ${cheats.length + 1}`, format, code);
+      setName("");
+      setCode("");
+    } catch (error) {
+      setFormError(
+        error instanceof CheatCodeError
+          ? error.message
+          : "Impossible d'enregistrer le code"
+      );
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
+      <h3 className="text-sm font-bold text-white mb-4">CHEATS</h3>
+
+      {message && <p className="mb-2 text-[10px] text-rose-400">{message}</p>}
+
+      <div className="space-y-1.5 mb-4">
+        {cheats.length === 0 && (
+          <p className="text-[10px] text-slate-500">
+            Aucun code pour cette ROM.
+          </p>
+        )}
+        {cheats.map((cheat) => (
+          <div
+            key={cheat.id}
+            className="flex items-center gap-2 p-2 rounded-lg bg-slate-800/50 border border-slate-700/50"
+          >
+            <input
+              type="checkbox"
+              checked={cheat.enabled}
+              onChange={() => onToggle(cheat)}
+              className="accent-purple-500"
+              title={cheat.enabled ? "Désactiver" : "Activer"}
+            />
+            <input
+              defaultValue={cheat.name}
+              onBlur={(e) => {
+                const next = e.target.value.trim();
+                if (next && next !== cheat.name) onRename(cheat, next);
+              }}
+              className="flex-1 min-w-0 bg-transparent text-xs text-slate-300 font-mono focus:outline-none"
+              title={cheat.code}
+            />
+            <span className="text-[9px] font-mono text-cyan-300">
+              {cheat.format === "codebreaker"
+                ? "CB"
+                : cheat.format === "gameshark-v3"
+                ? "GS3"
+                : "GS1"}
+            </span>
+            <button
+              onClick={() => onDelete(cheat)}
+              className="text-slate-500 hover:text-rose-400 text-xs px-1"
+              title="Supprimer"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom"
+          className={`${inputClassName} w-full`}
+        />
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as CheatFormat)}
+          className={`${inputClassName} w-full`}
+        >
+          {CHEAT_FORMATS.map((option) => (
+            <option key={option} value={option}>
+              {CHEAT_FORMAT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={
+            format === "codebreaker" ? "XXXXXXXX YYYY" : "XXXXXXXX YYYYYYYY"
+          }
+          rows={3}
+          spellCheck={false}
+          className={`${inputClassName} w-full resize-y uppercase`}
+        />
+        {formError && <p className="text-[10px] text-rose-400">{formError}</p>}
+        <button
+          onClick={handleAdd}
+          disabled={adding || code.trim().length === 0}
+          className="w-full p-2 rounded-lg text-xs font-mono bg-purple-600/30 text-purple-200 border border-purple-500/50 hover:bg-purple-600/50 disabled:opacity-40"
+        >
+          + Ajouter le code
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+interface ConnectionLostPanelProps {
+  restoring: boolean;
+  canRestore: boolean;
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+export function ConnectionLostPanel({
+  restoring,
+  canRestore,
+  onRestore,
+  onDismiss,
+}: ConnectionLostPanelProps) {
+  return (
+    <div className="mb-4 md:mb-6 p-3 md:p-4 bg-amber-950/50 border border-amber-500/50 rounded-xl backdrop-blur-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xl">🔌</span>
+        <span className="text-amber-400 font-bold text-sm">
+          Connexion perdue
+        </span>
+      </div>
+      <p className="text-amber-200 text-xs md:text-sm">
+        Impossible de se reconnecter à la session.
+        {canRestore &&
+          " Vous pouvez relancer le jeu depuis votre dernière sauvegarde."}
+      </p>
+      <div className="flex gap-2 mt-3">
+        {canRestore && (
+          <button
+            onClick={onRestore}
+            disabled={restoring}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50"
+          >
+            {restoring ? "Restauration..." : "Restaurer la dernière sauvegarde"}
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          disabled={restoring}
+          className="px-3 py-1.5 rounded-lg text-xs bg-slate-800/80 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+        >
+          Fermer
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import {
+  EMULATOR_SPEEDS,
+  type EmulatorState,
+  type ResetKind,
+} from "@/api/play.api";
+
+interface EmulatorControlsProps {
+  state: EmulatorState;
+  onTogglePause: () => void;
+  onReset: (kind: ResetKind) => void;
+  onSpeedChange: (speed: number) => void;
+  disabled?: boolean;
+  // Smaller buttons, for the mobile control bar and fullscreen overlay
+  compact?: boolean;
+  className?: string;
+}
+
+function formatSpeed(speed: number): string {
+  return `${speed}x`;
+}
+
+export function EmulatorControls({
+  state,
+  onTogglePause,
+  onReset,
+  onSpeedChange,
+  disabled = false,
+  compact = false,
+  className = "",
+}: EmulatorControlsProps) {
+  const buttonClassName = `rounded font-mono font-bold text-slate-300 hover:text-white disabled:opacity-40 ${
+    compact ? "p-1 text-[9px]" : "p-1.5 text-xs"
+  }`;
+  const iconClassName = compact ? "w-3.5 h-3.5" : "w-4 h-4";
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <button
+        onClick={onTogglePause}
+        disabled={disabled}
+        className={`${buttonClassName} ${
+          state.paused ? "text-amber-300 animate-pulse" : ""
+        }`}
+        title={state.paused ? "Reprendre" : "Pause"}
+      >
+        <svg className={iconClassName} fill="currentColor" viewBox="0 0 24 24">
+          {state.paused ? (
+            <path d="M8 5v14l11-7z" />
+          ) : (
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          )}
+        </svg>
+      </button>
+
+      <button
+        onClick={() => onReset("soft")}
+        disabled={disabled}
+        className={buttonClassName}
+        title="Reset"
+      >
+        <svg
+          className={iconClassName}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+          />
+        </svg>
+      </button>
+
+      <button
+        onClick={() => {
+          if (
+            confirm(
+              "Redémarrer la console ? La partie non sauvegardée sera perdue."
+            )
+          ) {
+            onReset("hard");
+          }
+        }}
+        disabled={disabled}
+        className={`${buttonClassName} text-rose-300`}
+        title="Redémarrage complet"
+      >
+        <svg
+          className={iconClassName}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M12 3v9m6.364-5.364a9 9 0 11-12.728 0"
+          />
+        </svg>
+      </button>
+
+      <select
+        value={state.speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        disabled={disabled}
+        className={`bg-slate-800/80 border border-slate-700/50 rounded font-mono text-cyan-300 disabled:opacity-40 ${
+          compact ? "px-0.5 text-[9px]" : "px-1 py-0.5 text-xs"
+        } ${state.speed !== 1 ? "text-amber-300" : ""}`}
+        title="Vitesse d'émulation"
+      >
+        {EMULATOR_SPEEDS.map((speed) => (
+          <option key={speed} value={speed}>
+            {formatSpeed(speed)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,17 +1,43 @@
-import { forwardRef } from "react";
+import { forwardRef, type ReactNode, type Ref } from "react";
 
 interface GameCanvasProps {
   isPlaying: boolean;
   isMobile?: boolean;
   onStartGame: () => void;
+  // WebGL layer drawn over the 2D canvas when a video filter is enabled
+  glCanvasRef?: Ref<HTMLCanvasElement>;
+  glActive?: boolean;
+  // Layer whose control is transferred to the WebRTC video worker
+  videoCanvasRef?: Ref<HTMLCanvasElement>;
+  videoActive?: boolean;
+  // Shows the rewind indicator while frames are played backwards
+  rewinding?: boolean;
+  // Rendered on top of the game screen (stats, indicators...)
+  overlay?: ReactNode;
+  // Rendered below the game screen (control bar)
+  children?: ReactNode;
 }
 
 export const GameCanvas = forwardRef<HTMLCanvasElement, GameCanvasProps>(
-  ({ isPlaying, isMobile = false, onStartGame }, ref) => {
+  (
+    {
+      isPlaying,
+      isMobile = false,
+      onStartGame,
+      glCanvasRef,
+      glActive = false,
+      videoCanvasRef,
+      videoActive = false,
+      rewinding = false,
+      overlay,
+      children,
+    },
+    ref
+  ) => {
     return (
       <div
         className={`relative bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm overflow-hidden ${
-          isMobile ? "shrink-0 rounded-lg" : "rounded-2xl"
+          isMobile ? "shrink-0 rounded-lg p-1.5 pb-2" : "rounded-2xl"
         }`}
       >
         <div className={isMobile ? "" : "p-3 md:p-6"}>
@@ -36,6 +62,35 @@ export const GameCanvas = forwardRef<HTMLCanvasElement, GameCanvasProps>(
               style={{ imageRendering: "pixelated" }}
             />
 
+            {glCanvasRef && (
+              <canvas
+                ref={glCanvasRef}
+                className={`absolute inset-0 w-full h-full ${
+                  glActive ? "block" : "hidden"
+                }`}
+              />
+            )}
+
+            {videoCanvasRef && (
+              <canvas
+                ref={videoCanvasRef}
+                className={`absolute inset-0 w-full h-full ${
+                  videoActive ? "block" : "hidden"
+                }`}
+                style={{ imageRendering: "pixelated" }}
+              />
+            )}
+
+            {rewinding && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 md:top-3 z-20 pointer-events-none">
+                <span className="px-2 py-0.5 rounded bg-black/70 border border-amber-400/60 text-amber-300 font-mono font-bold text-[10px] md:text-xs tracking-wider animate-pulse">
+                  ◀◀ REWIND
+                </span>
+              </div>
+            )}
+
+            {overlay}
+
             {/* Play Overlay */}
             {!isPlaying && (
               <div
@@ -57,6 +112,8 @@ export const GameCanvas = forwardRef<HTMLCanvasElement, GameCanvasProps>(
               </div>
             )}
           </div>
+
+          {children}
         </div>
       </div>
     );
@@ -1,16 +1,36 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { type StreamMode } from "@/api/play.api";
+import {
+  type EmulatorState,
+  type ReconnectStatus,
+  type ResetKind,
+  type StreamMode,
+} from "@/api/play.api";
+import type { AudioSettings } from "@/lib/audio-mixer";
+import { AudioControls } from "./AudioControls";
+import { EmulatorControls } from "./EmulatorControls";
 
 interface GameControlBarProps {
   status: string;
   isPlaying: boolean;
   sessionId: string | null;
   streamMode: StreamMode;
+  reconnectStatus?: ReconnectStatus | null;
+  statsVisible?: boolean;
+  audioSettings?: AudioSettings;
+  emulatorState?: EmulatorState;
+  // e.g. while a movie replays
+  emulatorControlsDisabled?: boolean;
   isMobile?: boolean;
   onStart: () => void;
   onStop: () => void;
   onToggleFullscreen?: () => void;
+  onOpenSaveStates?: () => void;
+  onToggleStats?: () => void;
+  onAudioSettingsChange?: (settings: AudioSettings) => void;
+  onTogglePause?: () => void;
+  onReset?: (kind: ResetKind) => void;
+  onSpeedChange?: (speed: number) => void;
   onStreamModeChange: (mode: StreamMode) => void;
 }
 
@@ -19,16 +39,36 @@ export function GameControlBar({
   isPlaying,
   sessionId,
   streamMode,
+  reconnectStatus,
+  statsVisible = false,
+  audioSettings,
+  emulatorState,
+  emulatorControlsDisabled = false,
   isMobile = false,
   onStart,
   onStop,
   onToggleFullscreen,
+  onOpenSaveStates,
+  onToggleStats,
+  onAudioSettingsChange,
+  onTogglePause,
+  onReset,
+  onSpeedChange,
   onStreamModeChange,
 }: GameControlBarProps) {
   const handleStreamModeToggle = () => {
     onStreamModeChange(streamMode === "websocket" ? "webrtc" : "websocket");
   };
 
+  const isReconnecting = reconnectStatus?.state === "reconnecting";
+  const connectionLost = reconnectStatus?.state === "failed";
+
+  const statusLabel = isReconnecting
+    ? `Reconnecting ${reconnectStatus.attempt}/${reconnectStatus.maxAttempts}`
+    : connectionLost
+    ? "Connection lost"
+    : status;
+
   return (
     <div
       className={`${
@@ -38,18 +78,41 @@ export function GameControlBar({
       <div className="flex items-center gap-2">
         <Badge
           className={`font-mono text-[9px] md:text-xs px-1.5 py-0.5 ${
-            isPlaying
-              ? "bg-green-500/20 text-green-300 border-green-500/50"
-              : status === "Error"
+            isReconnecting
+              ? "bg-amber-500/20 text-amber-300 border-amber-500/50 animate-pulse"
+              : connectionLost || status === "Error"
               ? "bg-red-500/20 text-red-300 border-red-500/50"
+              : isPlaying
+              ? "bg-green-500/20 text-green-300 border-green-500/50"
               : "bg-slate-500/20 text-slate-300 border-slate-500/50"
           }`}
         >
-          {status.toUpperCase()}
+          {statusLabel.toUpperCase()}
         </Badge>
       </div>
 
       <div className="flex gap-1">
+        {emulatorState && onTogglePause && onReset && onSpeedChange && (
+          <EmulatorControls
+            state={emulatorState}
+            onTogglePause={onTogglePause}
+            onReset={onReset}
+            onSpeedChange={onSpeedChange}
+            disabled={!isPlaying || emulatorControlsDisabled}
+            compact={isMobile}
+            className="mr-1"
+          />
+        )}
+
+        {audioSettings && onAudioSettingsChange && (
+          <AudioControls
+            settings={audioSettings}
+            onChange={onAudioSettingsChange}
+            compact={isMobile}
+            className="mr-1"
+          />
+        )}
+
         {/* Stream Mode Toggle - Mobile */}
         {isMobile && (
           <Button
@@ -88,6 +151,30 @@ export function GameControlBar({
           </Button>
         )}
 
+        {/* Save States Button - Mobile */}
+        {isMobile && onOpenSaveStates && (
+          <Button
+            onClick={onOpenSaveStates}
+            size="sm"
+            className="bg-amber-600 hover:bg-amber-500 text-white font-bold px-1.5 py-1 rounded h-6"
+            title="Save States"
+          >
+            <svg
+              className="w-3 h-3"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
+              />
+            </svg>
+          </Button>
+        )}
+
         {/* Fullscreen Button - Mobile */}
         {isMobile && sessionId && onToggleFullscreen && (
           <Button
@@ -111,6 +198,21 @@ export function GameControlBar({
           </Button>
         )}
 
+        {onToggleStats && (
+          <Button
+            onClick={onToggleStats}
+            size="sm"
+            className={`font-bold rounded font-mono ${
+              statsVisible
+                ? "bg-cyan-600 hover:bg-cyan-500 text-white"
+                : "bg-slate-700 hover:bg-slate-600 text-slate-300"
+            } ${isMobile ? "px-1.5 py-1 h-6 text-[9px]" : "px-3 py-2 text-xs"}`}
+            title="Statistiques du flux"
+          >
+            STATS
+          </Button>
+        )}
+
         <Button
           onClick={onStart}
           disabled={!!sessionId}
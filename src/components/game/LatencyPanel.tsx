@@ -0,0 +1,113 @@
+import { HISTOGRAM_BUCKET_MS, type LatencySummary } from "@/api/latency-probe";
+
+interface LatencyPanelProps {
+  enabled: boolean;
+  // Set when the current video path can't be measured
+  unavailableReason: string | null;
+  summaries: LatencySummary[];
+  onToggle: (enabled: boolean) => void;
+  onReset: () => void;
+}
+
+const MODE_COLORS: Record<LatencySummary["mode"], string> = {
+  websocket: "bg-cyan-500/70",
+  webrtc: "bg-green-500/70",
+};
+
+function LatencyHistogram({ summary }: { summary: LatencySummary }) {
+  const peak = Math.max(1, ...summary.histogram);
+
+  return (
+    <div
+      className="flex items-end gap-px h-10 mt-2"
+      title={`${HISTOGRAM_BUCKET_MS} ms par barre`}
+    >
+      {summary.histogram.map((count, index) => (
+        <div
+          key={index}
+          className={`flex-1 rounded-t-sm ${MODE_COLORS[summary.mode]}`}
+          style={{ height: `${(count / peak) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function LatencyPanel({
+  enabled,
+  unavailableReason,
+  summaries,
+  onToggle,
+  onReset,
+}: LatencyPanelProps) {
+  return (
+    <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-white">LATENCY</h3>
+        <label
+          className={`flex items-center gap-2 text-xs font-mono text-slate-400 ${
+            unavailableReason
+              ? "opacity-50 cursor-not-allowed"
+              : "cursor-pointer"
+          }`}
+        >
+          <span>{enabled && !unavailableReason ? "ON" : "OFF"}</span>
+          <input
+            type="checkbox"
+            checked={enabled && !unavailableReason}
+            disabled={!!unavailableReason}
+            onChange={(e) => onToggle(e.target.checked)}
+            className="accent-purple-500"
+          />
+        </label>
+      </div>
+
+      {unavailableReason ? (
+        <p className="text-[10px] text-amber-400 mb-3">{unavailableReason}</p>
+      ) : (
+        enabled && (
+          <p className="text-[10px] text-slate-500 mb-3">
+            Appuyez sur un bouton sur un écran fixe (menu, pause) : le délai
+            jusqu'au premier changement visible est mesuré.
+          </p>
+        )
+      )}
+
+      <div className="space-y-3">
+        {summaries.map((summary) => (
+          <div
+            key={summary.mode}
+            className="p-2 bg-slate-800/50 rounded-lg font-mono text-[10px] text-slate-300"
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-bold uppercase">{summary.mode}</span>
+              <span className="text-slate-500">
+                n={summary.count}
+                {summary.timeouts > 0 && ` · ${summary.timeouts} timeout`}
+              </span>
+            </div>
+            {summary.count > 0 ? (
+              <>
+                <div className="grid grid-cols-3 gap-1 mt-1">
+                  <span>p50 {summary.p50Ms.toFixed(0)}ms</span>
+                  <span>p95 {summary.p95Ms.toFixed(0)}ms</span>
+                  <span>p99 {summary.p99Ms.toFixed(0)}ms</span>
+                </div>
+                <LatencyHistogram summary={summary} />
+              </>
+            ) : (
+              <p className="text-slate-500 mt-1">Aucune mesure</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onReset}
+        className="w-full mt-3 p-1.5 rounded-lg text-xs font-mono bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:bg-slate-700/50"
+      >
+        Reset
+      </button>
+    </div>
+  );
+}
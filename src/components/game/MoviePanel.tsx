@@ -0,0 +1,98 @@
+import { useRef } from "react";
+import { MOVIE_FILE_EXTENSION } from "@/api/movie";
+
+export type MovieStatus = "idle" | "recording" | "replaying";
+
+interface MoviePanelProps {
+  status: MovieStatus;
+  message: string | null;
+  // Recording starts from a save state of the running session
+  canRecord: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (file: File) => void;
+  onStopReplay: () => void;
+}
+
+export function MoviePanel({
+  status,
+  message,
+  canRecord,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+  onStopReplay,
+}: MoviePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-white">MOVIE</h3>
+        {status !== "idle" && (
+          <span
+            className={`text-xs font-mono animate-pulse ${
+              status === "recording" ? "text-rose-400" : "text-cyan-400"
+            }`}
+          >
+            {status === "recording" ? "● REC" : "▶ REPLAY"}
+          </span>
+        )}
+      </div>
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        accept={`${MOVIE_FILE_EXTENSION},.json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) onReplay(file);
+        }}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        {status === "recording" ? (
+          <button
+            onClick={onStopRecording}
+            className="p-2 rounded-lg text-xs font-mono bg-rose-600/30 text-rose-200 border border-rose-500/50 hover:bg-rose-600/50"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={onStartRecording}
+            disabled={!canRecord || status !== "idle"}
+            className="p-2 rounded-lg text-xs font-mono bg-slate-800/50 text-slate-300 border border-slate-700/50 hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Enregistrer
+          </button>
+        )}
+        {status === "replaying" ? (
+          <button
+            onClick={onStopReplay}
+            className="p-2 rounded-lg text-xs font-mono bg-cyan-600/30 text-cyan-200 border border-cyan-500/50 hover:bg-cyan-600/50"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={status !== "idle"}
+            className="p-2 rounded-lg text-xs font-mono bg-slate-800/50 text-slate-300 border border-slate-700/50 hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Rejouer…
+          </button>
+        )}
+      </div>
+
+      {status === "replaying" && (
+        <p className="text-[10px] text-slate-500 mt-3">
+          Les commandes sont ignorées pendant la relecture.
+        </p>
+      )}
+      {message && <p className="text-[10px] text-amber-400 mt-3">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import {
+  REWIND_MAX_BUFFER_SECONDS,
+  REWIND_MAX_GRANULARITY,
+  REWIND_MIN_BUFFER_SECONDS,
+  REWIND_MIN_GRANULARITY,
+  type RewindSettings,
+} from "@/api/play.api";
+
+interface RewindPanelProps {
+  settings: RewindSettings;
+  onChange: (settings: RewindSettings) => void;
+  // Settings only apply to sessions created after the change
+  sessionActive?: boolean;
+}
+
+export function RewindPanel({
+  settings,
+  onChange,
+  sessionActive = false,
+}: RewindPanelProps) {
+  return (
+    <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
+      <h3 className="text-sm font-bold text-white mb-4">REWIND</h3>
+
+      <div className="space-y-2 text-xs font-mono text-slate-400">
+        <label className="flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50 cursor-pointer">
+          <span>Retour arrière</span>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) =>
+              onChange({ ...settings, enabled: e.target.checked })
+            }
+            className="accent-purple-500"
+          />
+        </label>
+
+        <label className="flex items-center gap-3 p-2 rounded-lg bg-slate-800/50 border border-slate-700/50">
+          <span className="w-20">Durée</span>
+          <input
+            type="range"
+            min={REWIND_MIN_BUFFER_SECONDS}
+            max={REWIND_MAX_BUFFER_SECONDS}
+            step={5}
+            value={settings.bufferSeconds}
+            disabled={!settings.enabled}
+            onChange={(e) =>
+              onChange({ ...settings, bufferSeconds: Number(e.target.value) })
+            }
+            className="flex-1 accent-purple-500 disabled:opacity-40"
+          />
+          <span className="w-10 text-right text-cyan-300">
+            {settings.bufferSeconds}s
+          </span>
+        </label>
+
+        <label
+          className="flex items-center gap-3 p-2 rounded-lg bg-slate-800/50 border border-slate-700/50"
+          title="Images entre deux captures de l'état"
+        >
+          <span className="w-20">Précision</span>
+          <input
+            type="range"
+            min={REWIND_MIN_GRANULARITY}
+            max={REWIND_MAX_GRANULARITY}
+            value={settings.granularityFrames}
+            disabled={!settings.enabled}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                granularityFrames: Number(e.target.value),
+              })
+            }
+            className="flex-1 accent-purple-500 disabled:opacity-40"
+          />
+          <span className="w-10 text-right text-cyan-300">
+            {settings.granularityFrames}f
+          </span>
+        </label>
+      </div>
+
+      {sessionActive && (
+        <p className="mt-2 text-[10px] text-slate-500">
+          Appliqué à la prochaine session.
+        </p>
+      )}
+    </div>
+  );
+}
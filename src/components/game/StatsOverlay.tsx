@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { type StreamStats } from "@/api/stream-stats";
+
+interface StatsOverlayProps {
+  stats: StreamStats | null;
+}
+
+const formatValue = (value: number | undefined, digits: number = 1) =>
+  value === undefined ? "—" : value.toFixed(digits);
+
+export function StatsOverlay({ stats }: StatsOverlayProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!stats) return;
+
+    const snapshot = {
+      ...stats,
+      userAgent: navigator.userAgent,
+      capturedAt: new Date(stats.timestamp).toISOString(),
+    };
+
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(snapshot, null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy stats:", error);
+    }
+  };
+
+  const rows: [string, string][] = stats
+    ? [
+        ["FPS", formatValue(stats.fps)],
+        ["RTT", `${formatValue(stats.rttMs)} ms`],
+        ["Jitter", `${formatValue(stats.jitterMs)} ms`],
+        ["Lost", formatValue(stats.packetsLost, 0)],
+        ["Decoded", formatValue(stats.framesDecoded, 0)],
+        ["Dropped", formatValue(stats.framesDropped, 0)],
+        ["Decode", `${formatValue(stats.decodeTimeMs, 2)} ms`],
+        ["Bitrate", `${formatValue(stats.bitrateKbps, 0)} kbps`],
+        ["Audio buf", `${formatValue(stats.audioBufferMs)} ms`],
+        ["Underruns", formatValue(stats.audioUnderruns, 0)],
+        ["Overflows", formatValue(stats.audioOverflows, 0)],
+      ]
+    : [];
+
+  return (
+    <div className="absolute top-2 left-2 z-20 min-w-36 p-2 rounded-lg bg-black/70 border border-slate-700/50 backdrop-blur-sm font-mono text-[10px] text-slate-300 pointer-events-auto">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="font-bold text-cyan-300 uppercase">
+          {stats ? stats.mode : "stats"}
+        </span>
+        <button
+          onClick={handleCopy}
+          disabled={!stats}
+          className="px-1.5 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-40"
+          title="Copier un snapshot JSON"
+        >
+          {copied ? "Copié" : "Copy JSON"}
+        </button>
+      </div>
+      {stats ? (
+        rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-3">
+            <span className="text-slate-500">{label}</span>
+            <span>{value}</span>
+          </div>
+        ))
+      ) : (
+        <p className="text-slate-500">Collecting...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { VideoFilterSettings, VideoScaler } from "@/api/webgl-renderer";
+
+interface VideoFilterPanelProps {
+  settings: VideoFilterSettings;
+  supported: boolean;
+  onChange: (settings: VideoFilterSettings) => void;
+}
+
+const SCALER_OPTIONS: { value: VideoScaler; label: string }[] = [
+  { value: "native", label: "Native" },
+  { value: "integer", label: "Integer scale" },
+  { value: "xbr", label: "xBR smoothing" },
+];
+
+export function VideoFilterPanel({
+  settings,
+  supported,
+  onChange,
+}: VideoFilterPanelProps) {
+  return (
+    <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
+      <h3 className="text-sm font-bold text-white mb-4">VIDEO FILTER</h3>
+
+      {!supported ? (
+        <p className="text-[10px] text-slate-500">
+          WebGL2 n'est pas disponible sur ce navigateur.
+        </p>
+      ) : (
+        <div className="space-y-2 text-xs font-mono text-slate-400">
+          <label className="flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <span>Scaling</span>
+            <select
+              value={settings.scaler}
+              onChange={(e) =>
+                onChange({
+                  ...settings,
+                  scaler: e.target.value as VideoScaler,
+                })
+              }
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            >
+              {SCALER_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50 cursor-pointer">
+            <span>LCD grid + ghosting</span>
+            <input
+              type="checkbox"
+              checked={settings.lcdGrid}
+              onChange={(e) =>
+                onChange({ ...settings, lcdGrid: e.target.checked })
+              }
+              className="accent-purple-500"
+            />
+          </label>
+
+          <label className="flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50 cursor-pointer">
+            <span>GBA colors</span>
+            <input
+              type="checkbox"
+              checked={settings.colorCorrection}
+              onChange={(e) =>
+                onChange({ ...settings, colorCorrection: e.target.checked })
+              }
+              className="accent-purple-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 // Game-related components
+export { AudioControls } from "./AudioControls";
+export { CheatsPanel } from "./CheatsPanel";
+export { ConnectionLostPanel } from "./ConnectionLostPanel";
+export { EmulatorControls } from "./EmulatorControls";
 export { GameCanvas } from "./GameCanvas";
 export { GameControlBar } from "./GameControlBar";
 export { GameError } from "./GameError";
 export { GameHeader } from "./GameHeader";
+export { LatencyPanel } from "./LatencyPanel";
+export { MoviePanel, type MovieStatus } from "./MoviePanel";
+export { RewindPanel } from "./RewindPanel";
+export { StatsOverlay } from "./StatsOverlay";
 export { TouchButton } from "./TouchButton";
+export { VideoFilterPanel } from "./VideoFilterPanel";
@@ -0,0 +1,277 @@
+/**
+ * Adaptive audio jitter buffer shared by the AudioWorklet and the
+ * ScriptProcessor fallback. It has no DOM dependencies so it can run on the
+ * audio rendering thread.
+ *
+ * Samples are stored at the emulator's source rate (32768 Hz on GBA, 32040 Hz
+ * on some cores) and resampled on read. The read ratio is nudged by a few
+ * hundred ppm to keep the buffer at its target depth, which absorbs clock
+ * drift between the emulator and the AudioContext without dropping chunks.
+ *
+ * When the emulator runs faster or slower than real time, it produces audio
+ * at that multiple of its source rate. setPlaybackRate makes the buffer read
+ * at the same multiple, so depth and jitter are still measured in wall-clock
+ * time and the buffer neither overflows nor starves.
+ */
+
+export interface AudioBufferStats {
+  bufferedMs: number;
+  targetMs: number;
+  jitterMs: number;
+  // Current drift correction applied to the resampling ratio, in ppm
+  driftPpm: number;
+  underruns: number;
+  overflows: number;
+}
+
+const MIN_TARGET_MS = 20;
+const MAX_TARGET_MS = 150;
+// Safety margin added on top of the observed jitter
+const TARGET_MARGIN_MS = 10;
+// How much the target grows after each underrun
+const UNDERRUN_PENALTY_MS = 8;
+// Per-chunk decay of the peak jitter, lets the target shrink back slowly
+const PEAK_JITTER_DECAY = 0.995;
+
+// Maximum drift correction (0.5%), small enough to be inaudible
+const MAX_CORRECTION = 0.005;
+// Proportional gain of the drift controller
+const CORRECTION_GAIN = 0.01;
+// Smoothing of the fill level used by the drift controller
+const FILL_SMOOTHING = 0.01;
+
+// Overflow threshold, as a multiple of the target depth
+const OVERFLOW_FACTOR = 3;
+
+const CAPACITY_SECONDS = 1;
+// Fastest emulation speed the ring is sized for
+const MAX_PLAYBACK_RATE = 4;
+
+export class AdaptiveAudioBuffer {
+  private outputRate: number;
+  private sourceRate = 32768;
+  private channels = 2;
+  private playbackRate = 1;
+
+  private ring: Float32Array;
+  private capacityFrames = 0;
+  private writeFrame = 0;
+  private readPosition = 0;
+
+  private primed = false;
+  private inUnderrun = false;
+  private lastArrivalMs: number | null = null;
+  private jitterMs = 0;
+  private peakJitterMs = 0;
+  private targetMs = MIN_TARGET_MS + TARGET_MARGIN_MS;
+  private smoothedFillMs = 0;
+  private correction = 0;
+  private underruns = 0;
+  private overflows = 0;
+
+  constructor(outputRate: number) {
+    this.outputRate = outputRate;
+    this.ring = new Float32Array(0);
+    this.allocate();
+  }
+
+  /**
+   * Queue interleaved samples. `nowMs` is the arrival time on any monotonic
+   * clock, used to estimate network jitter.
+   */
+  push(
+    samples: Float32Array,
+    sourceRate: number,
+    channels: number,
+    nowMs: number
+  ): void {
+    if (channels !== this.channels || sourceRate !== this.sourceRate) {
+      this.sourceRate = sourceRate;
+      this.channels = channels;
+      this.allocate();
+    }
+
+    const frames = Math.floor(samples.length / channels);
+    if (frames === 0) return;
+
+    this.trackJitter(frames, nowMs);
+
+    // Overflow: a burst left far more audio than needed, skip ahead
+    const maxFrames = Math.min(
+      this.capacityFrames - frames,
+      this.msToFrames(this.targetMs * OVERFLOW_FACTOR)
+    );
+    if (this.bufferedFrames() + frames > maxFrames) {
+      this.overflows++;
+      const keep = Math.max(0, this.msToFrames(this.targetMs) - frames);
+      this.readPosition = this.writeFrame - keep;
+    }
+
+    for (let i = 0; i < frames; i++) {
+      const ringIndex =
+        ((this.writeFrame + i) % this.capacityFrames) * channels;
+      for (let ch = 0; ch < channels; ch++) {
+        this.ring[ringIndex + ch] = samples[i * channels + ch];
+      }
+    }
+    this.writeFrame += frames;
+
+    if (!this.primed && this.bufferedMs() >= this.targetMs) {
+      this.primed = true;
+      this.inUnderrun = false;
+      this.smoothedFillMs = this.bufferedMs();
+    }
+  }
+
+  /**
+   * Fill one render quantum. Mono sources are duplicated to both outputs.
+   */
+  read(outputL: Float32Array, outputR?: Float32Array): void {
+    const length = outputL.length;
+    const channels = this.channels;
+
+    if (!this.primed) {
+      outputL.fill(0);
+      outputR?.fill(0);
+      return;
+    }
+
+    this.updateCorrection();
+    const step =
+      ((this.sourceRate * this.playbackRate) / this.outputRate) *
+      (1 + this.correction);
+
+    for (let i = 0; i < length; i++) {
+      const index = Math.floor(this.readPosition);
+
+      // Interpolation needs the next frame as well
+      if (index + 1 >= this.writeFrame) {
+        outputL.fill(0, i);
+        outputR?.fill(0, i);
+        this.handleUnderrun();
+        return;
+      }
+
+      const fraction = this.readPosition - index;
+      const a = (index % this.capacityFrames) * channels;
+      const b = ((index + 1) % this.capacityFrames) * channels;
+
+      const left = this.ring[a] + (this.ring[b] - this.ring[a]) * fraction;
+      outputL[i] = left;
+      if (outputR) {
+        outputR[i] =
+          channels > 1
+            ? this.ring[a + 1] +
+              (this.ring[b + 1] - this.ring[a + 1]) * fraction
+            : left;
+      }
+
+      this.readPosition += step;
+    }
+  }
+
+  /**
+   * Emulation speed multiplier. Buffered audio is kept and played at the new
+   * rate.
+   */
+  setPlaybackRate(rate: number): void {
+    const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(0.01, rate));
+    if (clamped === this.playbackRate) return;
+
+    this.playbackRate = clamped;
+    // Chunk spacing changes with the rate, don't count it as jitter
+    this.lastArrivalMs = null;
+    this.smoothedFillMs = this.bufferedMs();
+  }
+
+  clear(): void {
+    this.writeFrame = 0;
+    this.readPosition = 0;
+    this.primed = false;
+    this.lastArrivalMs = null;
+    this.correction = 0;
+  }
+
+  getStats(): AudioBufferStats {
+    return {
+      bufferedMs: this.bufferedMs(),
+      targetMs: this.targetMs,
+      jitterMs: this.jitterMs,
+      driftPpm: this.correction * 1e6,
+      underruns: this.underruns,
+      overflows: this.overflows,
+    };
+  }
+
+  private allocate(): void {
+    this.capacityFrames = Math.ceil(
+      this.sourceRate * CAPACITY_SECONDS * MAX_PLAYBACK_RATE
+    );
+    this.ring = new Float32Array(this.capacityFrames * this.channels);
+    this.clear();
+  }
+
+  // RFC 3550 style interarrival jitter against the chunk's own duration
+  private trackJitter(frames: number, nowMs: number): void {
+    const chunkMs = (frames / this.effectiveRate()) * 1000;
+
+    if (this.lastArrivalMs !== null) {
+      const deviation = Math.abs(nowMs - this.lastArrivalMs - chunkMs);
+      this.jitterMs += (deviation - this.jitterMs) / 16;
+      this.peakJitterMs = Math.max(
+        this.peakJitterMs * PEAK_JITTER_DECAY,
+        deviation
+      );
+    }
+    this.lastArrivalMs = nowMs;
+
+    this.targetMs = Math.min(
+      MAX_TARGET_MS,
+      Math.max(MIN_TARGET_MS, this.peakJitterMs + TARGET_MARGIN_MS)
+    );
+  }
+
+  // Proportional controller: read slightly faster when above target, slightly
+  // slower when below
+  private updateCorrection(): void {
+    this.smoothedFillMs +=
+      (this.bufferedMs() - this.smoothedFillMs) * FILL_SMOOTHING;
+    const error = (this.smoothedFillMs - this.targetMs) / this.targetMs;
+    this.correction = Math.max(
+      -MAX_CORRECTION,
+      Math.min(MAX_CORRECTION, error * CORRECTION_GAIN)
+    );
+  }
+
+  private handleUnderrun(): void {
+    if (!this.inUnderrun) {
+      this.underruns++;
+      this.inUnderrun = true;
+      this.peakJitterMs += UNDERRUN_PENALTY_MS;
+      this.targetMs = Math.min(
+        MAX_TARGET_MS,
+        Math.max(MIN_TARGET_MS, this.peakJitterMs + TARGET_MARGIN_MS)
+      );
+    }
+    // Rebuffer up to the (now larger) target before resuming
+    this.primed = false;
+    this.readPosition = Math.max(this.readPosition, this.writeFrame - 1);
+  }
+
+  private bufferedFrames(): number {
+    return Math.max(0, this.writeFrame - this.readPosition);
+  }
+
+  // Source frames consumed per second of wall-clock time
+  private effectiveRate(): number {
+    return this.sourceRate * this.playbackRate;
+  }
+
+  private bufferedMs(): number {
+    return (this.bufferedFrames() / this.effectiveRate()) * 1000;
+  }
+
+  private msToFrames(ms: number): number {
+    return Math.floor((ms / 1000) * this.effectiveRate());
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Output stage shared by both audio paths: master volume, mute and an
+ * optional "GBA speaker" voicing (compressor + low-pass) that approximates
+ * the handheld's small built-in speaker.
+ */
+
+export interface AudioSettings {
+  // 0 to 1
+  volume: number;
+  muted: boolean;
+  speakerFilter: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  volume: 1,
+  muted: false,
+  speakerFilter: false,
+};
+
+// Time constant for volume changes, avoids zipper noise
+const VOLUME_SMOOTHING_S = 0.015;
+const SPEAKER_LOWPASS_HZ = 4500;
+
+export class AudioMixer {
+  private context: AudioContext | null = null;
+  private destination: AudioNode | null = null;
+  private gainNode: GainNode | null = null;
+  private compressor: DynamicsCompressorNode | null = null;
+  private lowpass: BiquadFilterNode | null = null;
+  private settings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
+  private filterRouted: boolean | null = null;
+
+  // Returns the node sources should connect to
+  connect(context: AudioContext, destination: AudioNode): AudioNode {
+    this.disconnect();
+
+    this.context = context;
+    this.destination = destination;
+    this.gainNode = context.createGain();
+    this.filterRouted = null;
+
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.threshold.value = -18;
+    this.compressor.knee.value = 12;
+    this.compressor.ratio.value = 4;
+    this.compressor.attack.value = 0.003;
+    this.compressor.release.value = 0.15;
+
+    this.lowpass = context.createBiquadFilter();
+    this.lowpass.type = "lowpass";
+    this.lowpass.frequency.value = SPEAKER_LOWPASS_HZ;
+    this.lowpass.Q.value = 0.7;
+
+    this.compressor.connect(this.lowpass);
+    this.lowpass.connect(destination);
+
+    this.apply(this.settings);
+    return this.gainNode;
+  }
+
+  apply(settings: AudioSettings): void {
+    this.settings = { ...settings };
+
+    if (!this.context || !this.gainNode || !this.destination) return;
+
+    const gain = settings.muted ? 0 : Math.max(0, Math.min(1, settings.volume));
+    this.gainNode.gain.setTargetAtTime(
+      gain,
+      this.context.currentTime,
+      VOLUME_SMOOTHING_S
+    );
+
+    // Only re-route when needed, reconnecting mid-stream can click
+    if (settings.speakerFilter !== this.filterRouted) {
+      this.filterRouted = settings.speakerFilter;
+      this.gainNode.disconnect();
+      this.gainNode.connect(
+        settings.speakerFilter && this.compressor
+          ? this.compressor
+          : this.destination
+      );
+    }
+  }
+
+  getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
+  disconnect(): void {
+    this.gainNode?.disconnect();
+    this.compressor?.disconnect();
+    this.lowpass?.disconnect();
+    this.gainNode = null;
+    this.compressor = null;
+    this.lowpass = null;
+    this.context = null;
+    this.destination = null;
+  }
+}
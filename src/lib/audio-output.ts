@@ -0,0 +1,151 @@
+/**
+ * PCM playback engine shared by the websocket (GameAudioManager) and WebRTC
+ * data channel (WebRTCAudioPlayer) audio paths, so both stream modes get the
+ * same buffering behaviour.
+ *
+ * Samples go to the "webrtc-audio-processor" AudioWorklet. Where worklets are
+ * unavailable, the same AdaptiveAudioBuffer runs in a ScriptProcessor on the
+ * main thread instead.
+ */
+
+import audioWorkletUrl from "./audio-worklet-processor.ts?worker&url";
+import {
+  AdaptiveAudioBuffer,
+  type AudioBufferStats,
+} from "./audio-jitter-buffer";
+
+const FALLBACK_BUFFER_SIZE = 512;
+const FALLBACK_STATS_INTERVAL_MS = 500;
+
+export function pcm16ToFloat32(samples: Int16Array): Float32Array {
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = samples[i] / 32768.0;
+  }
+  return output;
+}
+
+export class PCMAudioOutput {
+  private workletNode: AudioWorkletNode | null = null;
+  private scriptProcessor: ScriptProcessorNode | null = null;
+  // Only used by the ScriptProcessor fallback, the worklet owns its own
+  private fallbackBuffer: AdaptiveAudioBuffer | null = null;
+  private lastStatsAt: number = 0;
+  private playbackRate = 1;
+  private onStatsCallback?: (stats: AudioBufferStats) => void;
+
+  async connect(context: AudioContext, destination: AudioNode): Promise<void> {
+    this.disconnect();
+
+    try {
+      await context.audioWorklet.addModule(audioWorkletUrl);
+
+      this.workletNode = new AudioWorkletNode(
+        context,
+        "webrtc-audio-processor",
+        {
+          outputChannelCount: [2],
+        }
+      );
+
+      this.workletNode.port.onmessage = (event) => {
+        if (event.data.type === "stats") {
+          this.onStatsCallback?.(event.data.stats);
+        }
+      };
+
+      this.workletNode.connect(destination);
+      this.workletNode.port.postMessage({
+        type: "set-playback-rate",
+        rate: this.playbackRate,
+      });
+    } catch (e) {
+      console.error(
+        "[Audio] Failed to load AudioWorklet, falling back to ScriptProcessor:",
+        e
+      );
+
+      this.fallbackBuffer = new AdaptiveAudioBuffer(context.sampleRate);
+      this.fallbackBuffer.setPlaybackRate(this.playbackRate);
+      this.scriptProcessor = context.createScriptProcessor(
+        FALLBACK_BUFFER_SIZE,
+        0,
+        2
+      );
+      this.scriptProcessor.onaudioprocess = (event) => {
+        this.processAudio(event);
+      };
+      this.scriptProcessor.connect(destination);
+    }
+  }
+
+  onStats(callback: (stats: AudioBufferStats) => void): void {
+    this.onStatsCallback = callback;
+  }
+
+  // Samples stay at the source rate, the buffer resamples on playback.
+  // The worklet path transfers the sample buffer, don't reuse it afterwards.
+  push(samples: Float32Array, sampleRate: number, channels: number): void {
+    if (samples.length === 0) return;
+
+    if (this.workletNode) {
+      this.workletNode.port.postMessage(
+        {
+          type: "add-samples",
+          samples,
+          sampleRate,
+          channels,
+        },
+        [samples.buffer]
+      );
+    } else if (this.fallbackBuffer) {
+      this.fallbackBuffer.push(
+        samples,
+        sampleRate,
+        channels,
+        performance.now()
+      );
+    }
+  }
+
+  // Emulation speed multiplier, see AdaptiveAudioBuffer.setPlaybackRate
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    this.workletNode?.port.postMessage({ type: "set-playback-rate", rate });
+    this.fallbackBuffer?.setPlaybackRate(rate);
+  }
+
+  clear(): void {
+    this.workletNode?.port.postMessage({ type: "clear-queue" });
+    this.fallbackBuffer?.clear();
+  }
+
+  disconnect(): void {
+    if (this.workletNode) {
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+
+    if (this.scriptProcessor) {
+      this.scriptProcessor.disconnect();
+      this.scriptProcessor = null;
+    }
+
+    this.fallbackBuffer = null;
+  }
+
+  private processAudio(event: AudioProcessingEvent): void {
+    if (!this.fallbackBuffer) return;
+
+    this.fallbackBuffer.read(
+      event.outputBuffer.getChannelData(0),
+      event.outputBuffer.getChannelData(1)
+    );
+
+    const now = performance.now();
+    if (now - this.lastStatsAt > FALLBACK_STATS_INTERVAL_MS) {
+      this.lastStatsAt = now;
+      this.onStatsCallback?.(this.fallbackBuffer.getStats());
+    }
+  }
+}
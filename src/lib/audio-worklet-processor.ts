@@ -2,8 +2,14 @@
  * AudioWorkletProcessor for low-latency WebRTC audio playback
  * Runs on a separate thread isolated from the main UI thread
  * This prevents audio glitches when the main thread is busy
+ *
+ * Buffering, jitter tracking and drift-corrected resampling are handled by
+ * AdaptiveAudioBuffer; underrun/overflow counters are posted as "stats"
+ * messages on the port.
  */
 
+import { AdaptiveAudioBuffer } from "./audio-jitter-buffer";
+
 // Type definitions for AudioWorkletGlobalScope
 interface AudioWorkletProcessor {
   readonly port: MessagePort;
@@ -26,31 +32,28 @@ declare function registerProcessor(
   }
 ): void;
 
+declare const sampleRate: number;
+declare const currentTime: number;
+
 interface AudioMessage {
-  type: "add-samples" | "get-latency" | "clear-queue";
+  type:
+    | "add-samples"
+    | "get-latency"
+    | "get-stats"
+    | "clear-queue"
+    | "set-playback-rate";
   samples?: Float32Array;
   sampleRate?: number;
   channels?: number;
+  rate?: number;
 }
 
-interface AudioState {
-  sampleRate: number;
-  channels: number;
-  queue: Float32Array[];
-  queuedSamples: number;
-  currentBuffer: Float32Array | null;
-  currentBufferOffset: number;
-  maxQueueMs: number;
-}
+// How often buffer statistics are pushed to the main thread
+const STATS_INTERVAL_S = 0.5;
 
 class WebRTCAudioWorkletProcessor extends AudioWorkletProcessor {
-  private sampleRate: number = 48000;
-  private channels: number = 2;
-  private queue: Float32Array[] = [];
-  private queuedSamples: number = 0;
-  private currentBuffer: Float32Array | null = null;
-  private currentBufferOffset: number = 0;
-  private maxQueueMs: number = 60;
+  private buffer = new AdaptiveAudioBuffer(sampleRate);
+  private lastStatsAt = 0;
 
   constructor() {
     super();
@@ -61,44 +64,44 @@ class WebRTCAudioWorkletProcessor extends AudioWorkletProcessor {
       switch (message.type) {
         case "add-samples":
           if (message.samples && message.sampleRate && message.channels) {
-            this.sampleRate = message.sampleRate;
-            this.channels = message.channels;
-            this.addSamples(message.samples);
+            this.buffer.push(
+              message.samples,
+              message.sampleRate,
+              message.channels,
+              currentTime * 1000
+            );
           }
           break;
 
-        case "get-latency":
-          const latencyMs = (this.queuedSamples / this.sampleRate) * 1000;
+        case "get-latency": {
+          const stats = this.buffer.getStats();
           this.port.postMessage({
             type: "latency",
-            latencyMs,
-            queuedSamples: this.queuedSamples,
+            latencyMs: stats.bufferedMs,
+            targetMs: stats.targetMs,
           });
           break;
+        }
+
+        case "get-stats":
+          this.postStats();
+          break;
 
         case "clear-queue":
-          this.queue = [];
-          this.queuedSamples = 0;
-          this.currentBuffer = null;
-          this.currentBufferOffset = 0;
+          this.buffer.clear();
+          break;
+
+        case "set-playback-rate":
+          if (message.rate) {
+            this.buffer.setPlaybackRate(message.rate);
+          }
           break;
       }
     };
   }
 
-  private addSamples(samples: Float32Array): void {
-    const channels = this.channels;
-    const maxQueueSamples = (this.maxQueueMs / 1000) * this.sampleRate;
-
-    while (this.queuedSamples > maxQueueSamples && this.queue.length > 0) {
-      const dropped = this.queue.shift();
-      if (dropped) {
-        this.queuedSamples -= dropped.length / channels;
-      }
-    }
-
-    this.queue.push(samples);
-    this.queuedSamples += samples.length / channels;
+  private postStats(): void {
+    this.port.postMessage({ type: "stats", stats: this.buffer.getStats() });
   }
 
   process(
@@ -113,52 +116,11 @@ class WebRTCAudioWorkletProcessor extends AudioWorkletProcessor {
 
     if (!outputL) return true;
 
-    const bufferSize = outputL.length;
-    const channels = this.channels;
-
-    let outputOffset = 0;
-
-    while (outputOffset < bufferSize) {
-      if (
-        !this.currentBuffer ||
-        this.currentBufferOffset >= this.currentBuffer.length
-      ) {
-        const nextBuffer = this.queue.shift();
-        if (nextBuffer) {
-          this.currentBuffer = nextBuffer;
-          this.currentBufferOffset = 0;
-          this.queuedSamples -= nextBuffer.length / channels;
-        } else {
-          this.currentBuffer = null;
-        }
-      }
-
-      if (this.currentBuffer) {
-        const samplesAvailable =
-          (this.currentBuffer.length - this.currentBufferOffset) / channels;
-        const samplesNeeded = bufferSize - outputOffset;
-        const samplesToCopy = Math.min(samplesAvailable, samplesNeeded);
-
-        for (let i = 0; i < samplesToCopy; i++) {
-          const srcIdx = this.currentBufferOffset + i * channels;
-          outputL[outputOffset + i] = this.currentBuffer[srcIdx];
-          if (outputR) {
-            outputR[outputOffset + i] =
-              channels > 1
-                ? this.currentBuffer[srcIdx + 1]
-                : this.currentBuffer[srcIdx];
-          }
-        }
+    this.buffer.read(outputL, outputR);
 
-        this.currentBufferOffset += samplesToCopy * channels;
-        outputOffset += samplesToCopy;
-      } else {
-        for (let i = outputOffset; i < bufferSize; i++) {
-          outputL[i] = 0;
-          if (outputR) outputR[i] = 0;
-        }
-        break;
-      }
+    if (currentTime - this.lastStatsAt >= STATS_INTERVAL_S) {
+      this.lastStatsAt = currentTime;
+      this.postStats();
     }
 
     return true;
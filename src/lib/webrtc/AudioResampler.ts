@@ -1,30 +0,0 @@
-export class AudioResampler {
-  resample(
-    input: Float32Array,
-    fromRate: number,
-    toRate: number,
-    channels: number
-  ): Float32Array {
-    if (fromRate === toRate) return input;
-
-    const ratio = fromRate / toRate;
-    const inputFrames = Math.floor(input.length / channels);
-    const outputFrames = Math.floor(inputFrames / ratio);
-    const output = new Float32Array(outputFrames * channels);
-
-    for (let i = 0; i < outputFrames; i++) {
-      const srcIndex = i * ratio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, inputFrames - 1);
-      const fraction = srcIndex - srcIndexFloor;
-
-      for (let ch = 0; ch < channels; ch++) {
-        const sample1 = input[srcIndexFloor * channels + ch];
-        const sample2 = input[srcIndexCeil * channels + ch];
-        output[i * channels + ch] = sample1 + (sample2 - sample1) * fraction;
-      }
-    }
-
-    return output;
-  }
-}
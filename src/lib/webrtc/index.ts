@@ -1,9 +0,0 @@
-// WebRTC utilities
-export { ADPCMDecoder } from "./ADPCMDecoder";
-export { AudioResampler } from "./AudioResampler";
-export {
-  getServerHost,
-  getSocketUrl,
-  ICE_SERVERS,
-  PEER_CONNECTION_CONFIG,
-} from "./config";
@@ -1,5 +1,4 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useLocation, useNavigate } from "react-router-dom";
 import {
@@ -11,21 +10,92 @@ import {
   GameCanvasManager,
   GameInputManager,
   PlayApiError,
+  DEFAULT_EMULATOR_STATE,
+  FAST_FORWARD_SPEED,
+  applyEmulatorCommand,
+  sendEmulatorCommand,
+  stepEmulatorSpeed,
+  type EmulatorCommand,
+  type EmulatorHotkey,
+  type EmulatorState,
+  type RewindSettings,
   type InputButton,
+  type InputState,
+  type ReconnectStatus,
   type StreamMode,
   type KeyMappings,
+  type GamepadProfile,
   loadKeyMappings,
   getKeyDisplayName,
+  loadFrameDelay,
+  saveFrameDelay,
+  keyToButton,
 } from "@/api/play.api";
 import {
   WebRTCManager,
   WebRTCVideoRenderer,
   WebRTCAudioPlayer,
   setStreamMode as setServerStreamMode,
+  isLanOnlyMode,
+  isLanOnlyForced,
+  setLanOnlyMode,
 } from "@/api/webrtc.api";
 import { useQueryState } from "nuqs";
 import { ControlsConfigDialog } from "@/components/ControlsConfigDialog";
 import { SaveStatesModal } from "@/components/SaveStatesModal";
+import {
+  AudioControls,
+  CheatsPanel,
+  ConnectionLostPanel,
+  EmulatorControls,
+  GameCanvas,
+  GameControlBar,
+  LatencyPanel,
+  MoviePanel,
+  RewindPanel,
+  StatsOverlay,
+  type MovieStatus,
+  VideoFilterPanel,
+} from "@/components/game";
+import { LatencyProbe, type LatencySummary } from "@/api/latency-probe";
+import { InputReliability } from "@/api/input-reliability";
+import {
+  InputAutomation,
+  loadRomInputProfile,
+  type RomInputProfile,
+} from "@/api/input-macros";
+import {
+  MovieError,
+  MoviePlayer,
+  MovieRecorder,
+  downloadMovie,
+  parseMovie,
+  verifyMovieRom,
+} from "@/api/movie";
+import { getRomById, type Rom } from "@/api/roms.api";
+import type { AudioBufferStats } from "@/lib/audio-jitter-buffer";
+import type { AudioSettings } from "@/lib/audio-mixer";
+import { loadAudioSettings, saveAudioSettings } from "@/api/audio-settings";
+import {
+  WebGLFrameRenderer,
+  isWebGL2Supported,
+  needsWebGL,
+  type VideoFilterSettings,
+} from "@/api/webgl-renderer";
+import {
+  loadVideoFilterSettings,
+  saveVideoFilterSettings,
+} from "@/api/video-filter-settings";
+import { loadRewindSettings, saveRewindSettings } from "@/api/rewind-settings";
+import type { StreamStats } from "@/api/stream-stats";
+import {
+  createStreamTransport,
+  FailoverTransport,
+  type FailoverPath,
+  type StreamTransport,
+  type TransportAudio,
+  type TransportVideo,
+} from "@/api/transport";
 import {
   listSaveStates,
   saveState,
@@ -33,6 +103,15 @@ import {
   base64ToArrayBuffer,
   type SaveStateMetadata,
 } from "@/api/saveStates.api";
+import {
+  createCheat,
+  deleteCheat,
+  listCheats,
+  updateCheat,
+  type Cheat,
+  type CheatChanges,
+} from "@/api/cheats.api";
+import { toSessionCheat, type CheatFormat } from "@/api/cheat-codes";
 
 interface ErrorState {
   message: string;
@@ -55,17 +134,54 @@ export default function PlayPage() {
   const [desc, setDesc] = useQueryState("desc");
 
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [inputProfile, setInputProfile] = useState<RomInputProfile>(() =>
+    loadRomInputProfile(romId)
+  );
+  const [runningMacros, setRunningMacros] = useState<string[]>([]);
   const [status, setStatus] = useState<string>("Ready");
   const [error, setError] = useState<ErrorState | null>(null);
   const [connected, setConnected] = useState(false);
+  const [reconnectStatus, setReconnectStatus] =
+    useState<ReconnectStatus | null>(null);
+  const [restoringSave, setRestoringSave] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [streamStats, setStreamStats] = useState<StreamStats | null>(null);
+  const [emulatorState, setEmulatorState] = useState<EmulatorState>(
+    DEFAULT_EMULATOR_STATE
+  );
+  const [movieStatus, setMovieStatus] = useState<MovieStatus>("idle");
+  const [movieMessage, setMovieMessage] = useState<string | null>(null);
+  const [cheats, setCheats] = useState<Cheat[]>([]);
+  const [cheatsMessage, setCheatsMessage] = useState<string | null>(null);
+  const [latencyEnabled, setLatencyEnabled] = useState(false);
+  const [latencySummaries, setLatencySummaries] = useState<LatencySummary[]>(
+    []
+  );
   const [isMobile, setIsMobile] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
 
   const [streamMode, setStreamMode] = useState<StreamMode>("websocket");
+  // Path currently playing in "both" mode
+  const [failoverPath, setFailoverPath] = useState<FailoverPath>("websocket");
+  const [lanOnly, setLanOnly] = useState(isLanOnlyMode);
+  const lanOnlyForced = isLanOnlyForced();
+  const [frameDelay, setFrameDelay] = useState(loadFrameDelay);
+  const [videoWorkerActive, setVideoWorkerActive] = useState(false);
+  const [videoFilter, setVideoFilter] = useState<VideoFilterSettings>(
+    loadVideoFilterSettings
+  );
+  const [rewindSettings, setRewindSettings] =
+    useState<RewindSettings>(loadRewindSettings);
+  // Rewind buffer of the current session, null when it has none
+  const [sessionRewind, setSessionRewind] = useState<RewindSettings | null>(
+    null
+  );
 
   const [showControlsConfig, setShowControlsConfig] = useState(false);
   const [keyMappings, setKeyMappings] = useState<KeyMappings>(loadKeyMappings);
+  const [audioSettings, setAudioSettings] =
+    useState<AudioSettings>(loadAudioSettings);
 
   const [showSaveStatesModal, setShowSaveStatesModal] = useState(false);
   const [showInlineSavePanel, setShowInlineSavePanel] = useState(false);
@@ -77,10 +193,14 @@ export default function PlayPage() {
   );
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  const videoCanvasRef = useRef<HTMLCanvasElement>(null);
   const gameContainerRef = useRef<HTMLDivElement>(null);
   const socketManagerRef = useRef<GameSocketManager>(new GameSocketManager());
   const audioManagerRef = useRef<GameAudioManager>(new GameAudioManager());
-  const canvasManagerRef = useRef<GameCanvasManager>(new GameCanvasManager());
+  const canvasManagerRef = useRef<GameCanvasManager>(
+    new GameCanvasManager(loadFrameDelay())
+  );
   const inputManagerRef = useRef<GameInputManager>(
     new GameInputManager(socketManagerRef.current)
   );
@@ -92,6 +212,31 @@ export default function PlayPage() {
   const webrtcAudioPlayerRef = useRef<WebRTCAudioPlayer>(
     new WebRTCAudioPlayer()
   );
+  const transportRef = useRef<StreamTransport | null>(null);
+  const inputReliabilityRef = useRef<InputReliability>(new InputReliability());
+  const inputAutomationRef = useRef<InputAutomation>(new InputAutomation());
+  const movieRecorderRef = useRef<MovieRecorder>(
+    new MovieRecorder(inputReliabilityRef.current)
+  );
+  const moviePlayerRef = useRef<MoviePlayer>(
+    new MoviePlayer(inputReliabilityRef.current)
+  );
+  const latencyProbeRef = useRef<LatencyProbe>(new LatencyProbe());
+  // Speed to go back to when the fast-forward key is released
+  const fastForwardFromRef = useRef<number | null>(null);
+  const audioBufferStatsRef = useRef<AudioBufferStats | null>(null);
+  const webglRendererRef = useRef<WebGLFrameRenderer>(new WebGLFrameRenderer());
+
+  const webglSupported = isWebGL2Supported();
+  const glActive = webglSupported && needsWebGL(videoFilter);
+
+  // The probe reads back the 2D canvas, which the WebGL overlay and the video
+  // worker draw around
+  const latencyUnavailable = glActive
+    ? "Indisponible avec les filtres vidéo WebGL"
+    : videoWorkerActive
+    ? "Indisponible quand la vidéo WebRTC est décodée hors du thread principal"
+    : null;
 
   const resumeAudio = useCallback(() => {
     audioManagerRef.current.resume?.();
@@ -100,22 +245,115 @@ export default function PlayPage() {
 
   const sendInput = useCallback(
     (button: InputButton, state: "down" | "up") => {
-      if (!sessionId) return;
+      // A replaying movie owns the pad
+      if (!sessionId || moviePlayerRef.current.isPlaying) return;
 
       resumeAudio();
 
-      if (
-        streamMode === "webrtc" &&
-        webrtcManagerRef.current.isDataChannelReady()
-      ) {
-        webrtcManagerRef.current.sendInput(button, state);
-      } else {
-        socketManagerRef.current.sendInput(sessionId, button, state);
+      if (state === "down") {
+        // "both" plays whichever path failover picked; "binary" frames are
+        // drawn on the canvas like WebSocket ones
+        const path =
+          streamMode === "both"
+            ? failoverPath
+            : streamMode === "webrtc"
+            ? "webrtc"
+            : "websocket";
+        latencyProbeRef.current.armInput(path);
       }
+
+      inputReliabilityRef.current.send(button, state);
     },
-    [sessionId, streamMode, resumeAudio]
+    [sessionId, streamMode, failoverPath, resumeAudio]
   );
 
+  const routeVideo = (video: TransportVideo) => {
+    if (video.kind === "frame") {
+      if (video.frame.seq !== undefined) {
+        movieRecorderRef.current.noteServerFrame(video.frame.seq);
+      }
+      canvasManagerRef.current.renderFrame(video.frame);
+    } else if (video.stream) {
+      webrtcVideoRendererRef.current.setVideoStream(video.stream);
+    } else {
+      webrtcVideoRendererRef.current.cleanup();
+    }
+  };
+
+  const routeAudio = (audio: TransportAudio) => {
+    switch (audio.kind) {
+      case "packet":
+        audioManagerRef.current.playAudio(audio.audio);
+        break;
+      case "pcm":
+        webrtcAudioPlayerRef.current.playPCMAudio(audio.audio);
+        break;
+      case "track":
+        if (!audio.stream) {
+          webrtcAudioPlayerRef.current.clearAudioStream();
+          break;
+        }
+        webrtcAudioPlayerRef.current.setAudioStream(audio.stream);
+        webrtcAudioPlayerRef.current.resume();
+        break;
+    }
+  };
+
+  // Closes the active transport and resets the media sinks before the new
+  // one starts delivering
+  const switchTransport = async (
+    mode: StreamMode
+  ): Promise<StreamTransport> => {
+    const previous = transportRef.current;
+    transportRef.current = null;
+    // Release on the old path so nothing stays held across the switch
+    inputReliabilityRef.current.releaseAll();
+    inputReliabilityRef.current.setSink(null);
+    if (previous) {
+      await previous.close();
+      canvasManagerRef.current.clear();
+      webrtcVideoRendererRef.current.cleanup();
+      audioManagerRef.current.clearQueue();
+      webrtcAudioPlayerRef.current.clearQueue();
+    }
+
+    const transport = createStreamTransport(mode, {
+      socketManager: socketManagerRef.current,
+      signaling: webrtcManagerRef.current,
+    });
+    transport.onVideo(routeVideo);
+    transport.onAudio(routeAudio);
+    movieRecorderRef.current.clearAppliedInput();
+    transport.onInputApplied((input) =>
+      movieRecorderRef.current.noteAppliedInput(input)
+    );
+    transport.onFailed(() => {
+      if (transport.sessionId) {
+        fallBackToWebSocket(transport.sessionId);
+      }
+    });
+    if (transport instanceof FailoverTransport) {
+      setFailoverPath(transport.path);
+      transport.onPathChange(setFailoverPath);
+      transport.setPaused(emulatorState.paused);
+    }
+    transportRef.current = transport;
+    inputReliabilityRef.current.setSink(transport);
+    return transport;
+  };
+
+  const fallBackToWebSocket = async (sid: string) => {
+    console.warn("[PlayPage] Stream transport lost, falling back to WebSocket");
+    const transport = await switchTransport("websocket");
+    await transport.subscribe(sid);
+    setStreamMode("websocket");
+
+    const result = await setServerStreamMode(sid, "websocket");
+    if (!result.success) {
+      console.error("Failed to fall back to WebSocket:", result.error);
+    }
+  };
+
   useEffect(() => {
     const checkDevice = () => {
       const mobile = window.innerWidth < 1024 || "ontouchstart" in window;
@@ -169,64 +407,90 @@ export default function PlayPage() {
   }, [gameData]);
 
   useEffect(() => {
-    audioManagerRef.current.initialize();
+    // Without an audio context the game keeps running silently
+    audioManagerRef.current.initialize().catch((error) => {
+      console.error(
+        "Failed to initialize audio, playing without sound:",
+        error
+      );
+    });
+    audioManagerRef.current.onBufferStats((stats) => {
+      audioBufferStatsRef.current = stats;
+    });
     if (canvasRef.current) {
       canvasManagerRef.current.initialize(canvasRef.current);
+      latencyProbeRef.current.attach(canvasRef.current);
     }
 
+    const latencyProbe = latencyProbeRef.current;
+    latencyProbe.onUpdate(() => {
+      setLatencySummaries([
+        latencyProbe.getSummary("websocket"),
+        latencyProbe.getSummary("webrtc"),
+      ]);
+    });
+    canvasManagerRef.current.onFramePresented(() =>
+      latencyProbe.framePresented()
+    );
+    webrtcVideoRendererRef.current.onFramePresented(() =>
+      latencyProbe.framePresented()
+    );
+
     const socketManager = socketManagerRef.current;
     socketManager.connect();
 
     socketManager.onConnect(() => {
       setConnected(true);
       audioManagerRef.current.resume();
+      // Everything was released on disconnect; tell the resumed session
+      inputReliabilityRef.current.resync();
     });
 
-    socketManager.onDisconnect(() => setConnected(false));
-
-    socketManager.onFrame((data) => {
-      if (streamMode === "websocket" || streamMode === "both") {
-        canvasManagerRef.current.renderFrame(data);
-      }
-    });
-    socketManager.onAudio((data) => {
-      if (streamMode === "websocket" || streamMode === "both") {
-        audioManagerRef.current.playAudio(data);
-      }
+    socketManager.onDisconnect(() => {
+      setConnected(false);
+      inputReliabilityRef.current.releaseAll();
     });
 
-    webrtcAudioPlayerRef.current.initialize();
-    if (canvasRef.current) {
-      webrtcVideoRendererRef.current.initialize(canvasRef.current);
-    }
-
-    const webrtcManager = webrtcManagerRef.current;
-
-    webrtcManager.connect();
+    socketManager.onEmulatorState(setEmulatorState);
 
-    webrtcManager.onVideoTrack((stream) => {
-      webrtcVideoRendererRef.current.setVideoStream(stream);
+    socketManager.onReconnectStatus((reconnect) => {
+      setReconnectStatus(reconnect);
+      if (reconnect.state === "failed") {
+        // The server-side session is gone once the retry budget is spent
+        setSessionId(null);
+        setStatus("Disconnected");
+      }
     });
 
-    webrtcManager.onAudioTrack((stream) => {
-      webrtcAudioPlayerRef.current.setAudioStream(stream);
-      webrtcAudioPlayerRef.current.resume();
+    webrtcAudioPlayerRef.current.initialize().catch((error) => {
+      console.error(
+        "Failed to initialize WebRTC audio, playing without sound:",
+        error
+      );
     });
-
-    webrtcManager.onAudioData((audioData) => {
-      webrtcAudioPlayerRef.current.playPCMAudio(audioData);
+    webrtcAudioPlayerRef.current.onBufferStats((stats) => {
+      audioBufferStatsRef.current = stats;
     });
+    if (canvasRef.current) {
+      webrtcVideoRendererRef.current.initialize(
+        canvasRef.current,
+        videoCanvasRef.current
+      );
+    }
+    webrtcVideoRendererRef.current.onWorkerRendering(setVideoWorkerActive);
 
-    webrtcManager.onError((error) => {
-      console.error("WebRTC error:", error);
-    });
+    // The signaling socket also carries save states, whatever the mode
+    webrtcManagerRef.current.connect();
+    switchTransport("websocket");
 
     return () => {
+      transportRef.current?.close();
+      transportRef.current = null;
       socketManager.disconnect();
       audioManagerRef.current.cleanup();
       inputManagerRef.current.cleanup();
       webrtcManagerRef.current.disconnect();
-      webrtcVideoRendererRef.current.cleanup();
+      webrtcVideoRendererRef.current.destroy();
       webrtcAudioPlayerRef.current.cleanup();
     };
   }, []);
@@ -234,44 +498,185 @@ export default function PlayPage() {
   useEffect(() => {
     if (canvasRef.current) {
       canvasManagerRef.current.initialize(canvasRef.current);
-      webrtcVideoRendererRef.current.initialize(canvasRef.current);
+      webrtcVideoRendererRef.current.initialize(
+        canvasRef.current,
+        videoCanvasRef.current
+      );
+      latencyProbeRef.current.attach(canvasRef.current);
     }
   }, [isFullscreen]);
 
   useEffect(() => {
+    const renderer = webglRendererRef.current;
+    const canvasManager = canvasManagerRef.current;
+    const videoRenderer = webrtcVideoRendererRef.current;
+
+    if (!glActive || !glCanvasRef.current) return;
+    if (!renderer.initialize(glCanvasRef.current)) return;
+
+    canvasManager.setWebGLRenderer(renderer);
+    videoRenderer.setWebGLRenderer(renderer);
+
+    return () => {
+      canvasManager.setWebGLRenderer(null);
+      videoRenderer.setWebGLRenderer(null);
+      renderer.destroy();
+    };
+  }, [glActive, isFullscreen]);
+
+  useEffect(() => {
+    latencyProbeRef.current.setEnabled(latencyEnabled && !latencyUnavailable);
+  }, [latencyEnabled, latencyUnavailable]);
+
+  useEffect(() => {
+    webglRendererRef.current.setSettings(videoFilter);
+    webrtcVideoRendererRef.current.setWorkerFilter(videoFilter);
+  }, [videoFilter]);
+
+  useEffect(() => {
+    audioManagerRef.current.setAudioSettings(audioSettings);
+    webrtcAudioPlayerRef.current.setAudioSettings(audioSettings);
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  // "M" toggles mute unless it is bound to a game button
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key.toLowerCase() !== "m") return;
+      if (keyToButton(e.key, keyMappings)) return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      setAudioSettings((prev) => ({ ...prev, muted: !prev.muted }));
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [keyMappings]);
+
+  useEffect(() => {
+    if (!showStats) return;
+
+    const collector = transportRef.current?.getStatsCollector();
+    if (!collector) return;
+
+    collector.start((stats) => {
+      const audio = audioBufferStatsRef.current;
+      setStreamStats(
+        audio
+          ? {
+              ...stats,
+              audioBufferMs: audio.bufferedMs,
+              audioUnderruns: audio.underruns,
+              audioOverflows: audio.overflows,
+            }
+          : stats
+      );
+    });
+    return () => collector.stop();
+  }, [showStats, streamMode]);
+
+  useEffect(() => {
+    const inputReliability = inputReliabilityRef.current;
+    const inputAutomation = inputAutomationRef.current;
+    const movieRecorder = movieRecorderRef.current;
+    const moviePlayer = moviePlayerRef.current;
     inputManagerRef.current.setSessionId(sessionId);
     if (sessionId) {
       inputManagerRef.current.setupKeyboardControls();
+      inputManagerRef.current.setupGamepadControls();
+      inputManagerRef.current.onMacroTrigger((macroId) =>
+        inputAutomation.triggerMacro(macroId)
+      );
+      inputAutomation.onRunningChange(setRunningMacros);
+      inputReliability.onMaskChange((mask) => movieRecorder.record(mask));
+      // Turbo would keep pressing after focus is lost or the link drops.
+      // Looped macros are stopped too rather than left playing blind; they
+      // are triggered again once the player is back.
+      inputReliability.onRelease(() => inputAutomation.stopAll());
+      moviePlayer.onEnd(() => setMovieStatus("idle"));
+      inputReliability.start();
     }
-    return () => inputManagerRef.current.cleanup();
+    return () => {
+      inputManagerRef.current.cleanup();
+      inputAutomation.stopAll();
+      moviePlayer.stop();
+      inputReliability.stop();
+      // A recording ends with its session
+      const movie = movieRecorder.stop();
+      if (movie) downloadMovie(movie);
+      setMovieStatus("idle");
+      // Every session starts running at normal speed
+      fastForwardFromRef.current = null;
+      setEmulatorState(DEFAULT_EMULATOR_STATE);
+      setSessionRewind(null);
+    };
   }, [sessionId]);
 
+  // Turbo and macros sit between the input sources and sendInput
+  useEffect(() => {
+    const inputAutomation = inputAutomationRef.current;
+    inputAutomation.setInputSender(sendInput);
+    inputManagerRef.current.setInputSender((button, state) =>
+      inputAutomation.handleInput(button, state)
+    );
+  }, [sendInput]);
+
+  useEffect(() => {
+    inputAutomationRef.current.setProfile(inputProfile);
+    inputManagerRef.current.updateMacroBindings(
+      inputProfile.macros.map((macro) => ({ id: macro.id, ...macro.binding }))
+    );
+  }, [inputProfile]);
+
   const handleKeyMappingsChange = useCallback((newMappings: KeyMappings) => {
     setKeyMappings(newMappings);
     inputManagerRef.current.updateKeyMappings(newMappings);
   }, []);
 
+  const handleGamepadProfileChange = useCallback(
+    (gamepadId: string, profile: GamepadProfile) => {
+      inputManagerRef.current.updateGamepadProfile(gamepadId, profile);
+    },
+    []
+  );
+
   const createSession = async () => {
     try {
       setError(null);
       setStatus("Creating...");
-      const data = await createGameSession(rom, streamMode);
+      const data = await createGameSession(rom, streamMode, {
+        rewind: rewindSettings,
+      });
+      inputReliabilityRef.current.setEncoding(data.inputEncoding ?? "events");
+      // Servers that don't report their rewind buffer are assumed to use
+      // the requested one
+      setSessionRewind(
+        data.rewind !== undefined
+          ? data.rewind
+          : rewindSettings.enabled
+          ? rewindSettings
+          : null
+      );
       setSessionId(data.sessionId);
       setStatus("Created");
 
-      socketManagerRef.current.subscribeToSession(data.sessionId);
-
-      if (streamMode === "webrtc" || streamMode === "both") {
-        const webrtcSuccess = await webrtcManagerRef.current.createSession(
-          data.sessionId
-        );
-        if (!webrtcSuccess) {
-          console.warn(
-            "WebRTC session creation failed, falling back to WebSocket"
-          );
-          if (streamMode === "webrtc") {
-            setStreamMode("websocket");
-          }
+      const transport =
+        transportRef.current ?? (await switchTransport(streamMode));
+      // The new session's frame counter starts over
+      canvasManagerRef.current.clear();
+      if (!(await transport.subscribe(data.sessionId))) {
+        console.warn("Stream transport failed to subscribe");
+        if (transport.mode !== "websocket") {
+          await fallBackToWebSocket(data.sessionId);
         }
       }
 
@@ -328,13 +733,6 @@ export default function PlayPage() {
       if (!sid) return null;
     }
 
-    if (!webrtcManagerRef.current.isSocketConnected()) {
-      webrtcManagerRef.current.connect();
-      await new Promise((resolve) => setTimeout(resolve, 300));
-    }
-
-    await webrtcManagerRef.current.createSession(sid);
-
     if (status !== "Playing") {
       await startSession(sid);
     }
@@ -356,6 +754,7 @@ export default function PlayPage() {
   const handleSaveState = useCallback(async (): Promise<{
     stateData: string;
     thumbnail: string | null;
+    frame?: number;
   } | null> => {
     const sid = await ensureSessionReady();
     if (!sid) {
@@ -363,73 +762,312 @@ export default function PlayPage() {
       return null;
     }
 
-    return new Promise((resolve) => {
-      webrtcManagerRef.current.saveState(sid, (result) => {
-        if (result.success && result.stateData) {
-          resolve({
-            stateData: result.stateData,
-            thumbnail: result.thumbnail ?? null,
-          });
-        } else {
-          console.error("Failed to save state:", result.error);
-          resolve(null);
-        }
-      });
-    });
-  }, [sessionId]);
+    return transportRef.current?.saveState() ?? null;
+  }, [ensureSessionReady]);
 
   const handleLoadState = useCallback(
     async (stateData: ArrayBuffer): Promise<boolean> => {
       const sid = await ensureSessionReady();
       if (!sid) return false;
 
-      const base64 = arrayBufferToBase64Safe(stateData);
+      const transport = transportRef.current;
+      if (!transport) return false;
 
-      return new Promise((resolve) => {
-        webrtcManagerRef.current.loadState(sid, base64, (result) => {
-          resolve(result.success);
-        });
-      });
+      return transport.loadState(arrayBufferToBase64Safe(stateData));
     },
     [ensureSessionReady, arrayBufferToBase64Safe]
   );
 
   const handleStreamModeChange = useCallback(
     async (newMode: StreamMode) => {
-      setStreamMode(newMode);
       if (sessionId) {
         const result = await setServerStreamMode(sessionId, newMode);
         if (!result.success) {
           console.error("Failed to change stream mode:", result.error);
           return;
         }
+      }
 
-        if (newMode === "webrtc" || newMode === "both") {
-          if (!webrtcManagerRef.current.isSocketConnected()) {
-            webrtcManagerRef.current.connect();
-            await new Promise((resolve) => setTimeout(resolve, 500));
-          }
-
-          const webrtcSuccess = await webrtcManagerRef.current.createSession(
-            sessionId
-          );
-          if (webrtcSuccess) {
-          } else {
-            console.warn("WebRTC session creation failed during mode switch");
-          }
-        }
+      const transport = await switchTransport(newMode);
+      setStreamMode(newMode);
+
+      if (sessionId && !(await transport.subscribe(sessionId))) {
+        console.warn("Stream transport failed to subscribe during mode switch");
       }
     },
     [sessionId]
   );
 
-  const stopEmulation = async () => {
+  // Audio, the input frame clock and failover's stall check follow the
+  // emulation speed and pause
+  useEffect(() => {
+    audioManagerRef.current.setPlaybackSpeed(emulatorState.speed);
+    webrtcAudioPlayerRef.current.setPlaybackSpeed(emulatorState.speed);
+    inputReliabilityRef.current.setClockRate(
+      emulatorState.paused ? 0 : emulatorState.speed
+    );
+    if (transportRef.current instanceof FailoverTransport) {
+      transportRef.current.setPaused(emulatorState.paused);
+    }
+  }, [emulatorState]);
+
+  // Rewound frames arrive with decreasing sequence numbers
+  useEffect(() => {
+    canvasManagerRef.current.setRewinding(emulatorState.rewinding);
+  }, [emulatorState.rewinding]);
+
+  const runEmulatorCommand = async (command: EmulatorCommand) => {
     if (!sessionId) return;
+
+    const previous = emulatorState;
+    setEmulatorState(applyEmulatorCommand(previous, command));
+
+    try {
+      const reply =
+        (await socketManagerRef.current.sendCommand(sessionId, command)) ??
+        (await sendEmulatorCommand(sessionId, command));
+      setEmulatorState((prev) => ({ ...prev, ...reply }));
+    } catch (err) {
+      console.error("[PlayPage] Emulator command failed:", err);
+      setEmulatorState(previous);
+    }
+  };
+
+  const handleTogglePause = () =>
+    runEmulatorCommand({ type: emulatorState.paused ? "resume" : "pause" });
+
+  const handleSpeedChange = (speed: number) => {
+    fastForwardFromRef.current = null;
+    runEmulatorCommand({ type: "speed", speed });
+  };
+
+  const handleHotkey = (hotkey: EmulatorHotkey, state: InputState) => {
+    // Pausing, speed changes, resets and rewinding would desync a movie
+    // being replayed; releases still go through so nothing stays held
+    if (moviePlayerRef.current.isPlaying && state === "down") return;
+
+    if (hotkey === "FAST_FORWARD") {
+      if (state === "down" && fastForwardFromRef.current === null) {
+        fastForwardFromRef.current = emulatorState.speed;
+        runEmulatorCommand({ type: "speed", speed: FAST_FORWARD_SPEED });
+      } else if (state === "up" && fastForwardFromRef.current !== null) {
+        const speed = fastForwardFromRef.current;
+        fastForwardFromRef.current = null;
+        runEmulatorCommand({ type: "speed", speed });
+      }
+      return;
+    }
+    if (hotkey === "REWIND") {
+      if (!sessionRewind) return;
+      // A movie only records forward play from its start state
+      if (state === "down" && movieRecorderRef.current.isRecording) return;
+      if (state === "down" && !emulatorState.rewinding) {
+        runEmulatorCommand({ type: "rewind-start" });
+      } else if (state === "up" && emulatorState.rewinding) {
+        runEmulatorCommand({ type: "rewind-stop" });
+      }
+      return;
+    }
+    if (state !== "down") return;
+
+    switch (hotkey) {
+      case "PAUSE":
+        handleTogglePause();
+        break;
+      case "RESET":
+        runEmulatorCommand({ type: "reset", kind: "soft" });
+        break;
+      case "SPEED_DOWN":
+        handleSpeedChange(stepEmulatorSpeed(emulatorState.speed, -1));
+        break;
+      case "SPEED_UP":
+        handleSpeedChange(stepEmulatorSpeed(emulatorState.speed, 1));
+        break;
+    }
+  };
+
+  // Re-registered every render so the handler sees the current state
+  useEffect(() => {
+    inputManagerRef.current.onHotkey(handleHotkey);
+  });
+
+  const handleStartRecording = async () => {
+    setMovieMessage(null);
+    if (emulatorState.rewinding) {
+      await runEmulatorCommand({ type: "rewind-stop" });
+    }
+    let romInfo: Rom | null = null;
+    try {
+      romInfo = romId ? await getRomById(romId) : null;
+    } catch (error) {
+      console.warn("[PlayPage] ROM details unavailable for movie:", error);
+    }
+
+    const result = await handleSaveState();
+    if (!result) {
+      setMovieMessage("Impossible de capturer l'état de départ.");
+      return;
+    }
+
+    movieRecorderRef.current.start(
+      result.stateData,
+      {
+        id: romId ?? "",
+        name: romInfo?.name ?? name ?? gameData?.name ?? "",
+        checksum: romInfo?.checksum ?? null,
+      },
+      inputReliabilityRef.current.heldMask,
+      result.frame
+    );
+    setMovieStatus("recording");
+  };
+
+  const handleStopRecording = () => {
+    const movie = movieRecorderRef.current.stop();
+    if (movie) downloadMovie(movie);
+    setMovieStatus("idle");
+  };
+
+  // Replays in a fresh session started from the movie's save state
+  const handleReplayMovie = async (file: File) => {
+    setMovieMessage(null);
+    try {
+      const movie = parseMovie(await file.text());
+
+      const romInfo = romId ? await getRomById(romId).catch(() => null) : null;
+      if (!verifyMovieRom(movie, romInfo?.checksum)) {
+        setMovieMessage(
+          "ROM non vérifiée : checksum absent, la relecture peut diverger."
+        );
+      }
+
+      if (sessionId && !(await stopEmulation())) return;
+      const sid = await createSession();
+      if (!sid) return;
+      await startSession(sid);
+
+      if (!(await transportRef.current?.loadState(movie.startState))) {
+        throw new MovieError("Impossible de charger l'état de départ.");
+      }
+      moviePlayerRef.current.play(movie);
+      setMovieStatus("replaying");
+    } catch (error) {
+      console.error("[PlayPage] Movie replay failed:", error);
+      setMovieMessage(
+        error instanceof MovieError ? error.message : "Échec de la relecture."
+      );
+    }
+  };
+
+  const handleStopReplay = () => {
+    moviePlayerRef.current.stop();
+    setMovieStatus("idle");
+  };
+
+  const handleLatencyToggle = (enabled: boolean) => {
+    setLatencyEnabled(enabled);
+  };
+
+  const handleLanOnlyChange = (enabled: boolean) => {
+    setLanOnlyMode(enabled);
+    setLanOnly(enabled);
+  };
+
+  const handleFrameDelayChange = (delayMs: number) => {
+    saveFrameDelay(delayMs);
+    canvasManagerRef.current.setTargetDelay(delayMs);
+    setFrameDelay(delayMs);
+  };
+
+  const handleVideoFilterChange = (settings: VideoFilterSettings) => {
+    saveVideoFilterSettings(settings);
+    setVideoFilter(settings);
+  };
+
+  const handleRewindSettingsChange = (settings: RewindSettings) => {
+    saveRewindSettings(settings);
+    setRewindSettings(settings);
+  };
+
+  // Cheats are stored server-side per user and ROM
+  useEffect(() => {
+    if (!romId) return;
+    listCheats(romId)
+      .then(setCheats)
+      .catch((error) => {
+        console.error("Failed to load cheats:", error);
+        setCheatsMessage("Impossible de charger les codes");
+      });
+  }, [romId]);
+
+  // The session gets the enabled cheats whenever they change or the control
+  // socket (re)connects
+  useEffect(() => {
+    if (!sessionId || !connected) return;
+
+    const active = cheats
+      .filter((cheat) => cheat.enabled)
+      .flatMap((cheat) => {
+        try {
+          return [toSessionCheat(cheat.id, cheat.code, cheat.format)];
+        } catch (error) {
+          console.warn(`[PlayPage] Skipping cheat "${cheat.name}":`, error);
+          return [];
+        }
+      });
+    socketManagerRef.current.setCheats(sessionId, active).then((applied) => {
+      if (!applied) setCheatsMessage("Codes non appliqués à la session");
+    });
+  }, [sessionId, connected, cheats]);
+
+  const handleAddCheat = async (
+    name: string,
+    format: CheatFormat,
+    code: string
+  ) => {
+    if (!romId) return;
+    const cheat = await createCheat({ romId, name, format, code });
+    setCheats((prev) => [...prev, cheat]);
+  };
+
+  const handleUpdateCheat = async (cheat: Cheat, changes: CheatChanges) => {
+    const replace = (next: Cheat) =>
+      setCheats((prev) => prev.map((c) => (c.id === cheat.id ? next : c)));
+
+    setCheatsMessage(null);
+    replace({ ...cheat, ...changes });
+    try {
+      replace(await updateCheat(cheat, changes));
+    } catch (error) {
+      console.error("Failed to update cheat:", error);
+      replace(cheat);
+      setCheatsMessage("Impossible de modifier le code");
+    }
+  };
+
+  const handleDeleteCheat = async (cheat: Cheat) => {
+    setCheatsMessage(null);
+    try {
+      await deleteCheat(cheat.id);
+      setCheats((prev) => prev.filter((c) => c.id !== cheat.id));
+    } catch (error) {
+      console.error("Failed to delete cheat:", error);
+      setCheatsMessage("Impossible de supprimer le code");
+    }
+  };
+
+  // Resolves to whether the session was stopped
+  const stopEmulation = async (): Promise<boolean> => {
+    if (!sessionId) return false;
     try {
       setStatus("Stopping...");
       await stopGameSession(sessionId);
+      canvasManagerRef.current.clear();
+      audioManagerRef.current.clearQueue();
+      webrtcAudioPlayerRef.current.clearQueue();
       setSessionId(null);
       setStatus("Ready");
+      return true;
     } catch (err) {
       if (err instanceof PlayApiError) {
         setError({ message: err.message, isNetworkError: err.isNetworkError });
@@ -440,6 +1078,49 @@ export default function PlayPage() {
           isNetworkError: false,
         });
       }
+      return false;
+    }
+  };
+
+  const resetSocketConnection = () => {
+    socketManagerRef.current.disconnect();
+    socketManagerRef.current.connect();
+    setReconnectStatus(null);
+  };
+
+  const handleRestoreLastSave = async () => {
+    setRestoringSave(true);
+    try {
+      resetSocketConnection();
+      const ready = await socketManagerRef.current.waitForConnection();
+      if (!ready) {
+        setReconnectStatus({ state: "failed", attempt: 0, maxAttempts: 0 });
+        setError({
+          message: "Impossible de se reconnecter au serveur.",
+          isNetworkError: true,
+        });
+        return;
+      }
+
+      const states = romId ? await listSaveStates(romId) : [];
+      const latest = [...states].sort(
+        (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)
+      )[0];
+
+      const sid = await createSession();
+      if (!sid) return;
+      await startSession(sid);
+
+      if (latest) {
+        const stateData = await loadStateById(latest.id);
+        await transportRef.current?.loadState(
+          arrayBufferToBase64Safe(stateData)
+        );
+      }
+    } catch (error) {
+      console.error("Failed to restore last save:", error);
+    } finally {
+      setRestoringSave(false);
     }
   };
 
@@ -537,21 +1218,43 @@ export default function PlayPage() {
     <button
       onTouchStart={(e) => {
         e.preventDefault();
-        sendInput(button, "down");
+        inputAutomationRef.current.handleInput(button, "down");
       }}
       onTouchEnd={(e) => {
         e.preventDefault();
-        sendInput(button, "up");
+        inputAutomationRef.current.handleInput(button, "up");
       }}
-      onMouseDown={() => sendInput(button, "down")}
-      onMouseUp={() => sendInput(button, "up")}
-      onMouseLeave={() => sendInput(button, "up")}
+      onMouseDown={() => inputAutomationRef.current.handleInput(button, "down")}
+      onMouseUp={() => inputAutomationRef.current.handleInput(button, "up")}
+      onMouseLeave={() => inputAutomationRef.current.handleInput(button, "up")}
       className={className}
     >
       {children}
     </button>
   );
 
+  const touchMacros = inputProfile.macros.filter(
+    (macro) => macro.binding.touch
+  );
+
+  const MacroTouchButtons = ({ className }: { className: string }) => (
+    <>
+      {touchMacros.map((macro) => (
+        <button
+          key={macro.id}
+          onClick={() => inputAutomationRef.current.triggerMacro(macro.id)}
+          className={`${className} ${
+            runningMacros.includes(macro.id)
+              ? "bg-purple-600 text-white animate-pulse"
+              : "bg-slate-700/80 text-slate-300"
+          }`}
+        >
+          {macro.name}
+        </button>
+      ))}
+    </>
+  );
+
   if (isMobile && isFullscreen) {
     return (
       <div
@@ -567,7 +1270,24 @@ export default function PlayPage() {
             style={{ imageRendering: "pixelated" }}
           />
 
+          <canvas
+            ref={glCanvasRef}
+            className={`absolute inset-0 w-full h-full ${
+              glActive ? "block" : "hidden"
+            }`}
+          />
+
+          <canvas
+            ref={videoCanvasRef}
+            className={`absolute inset-0 w-full h-full ${
+              videoWorkerActive ? "block" : "hidden"
+            }`}
+            style={{ imageRendering: "pixelated" }}
+          />
+
           <div className="absolute inset-0 opacity-[0.02] pointer-events-none bg-[linear-gradient(transparent_50%,rgba(0,0,0,0.5)_50%)] bg-size-[100%_4px]" />
+
+          {showStats && <StatsOverlay stats={streamStats} />}
         </div>
 
         {showControls && (
@@ -692,7 +1412,13 @@ export default function PlayPage() {
                     )}
                   </svg>
                   <span className="text-[10px] font-bold">
-                    {streamMode === "webrtc" ? "RTC" : "WS"}
+                    {streamMode === "webrtc"
+                      ? "RTC"
+                      : streamMode === "binary"
+                      ? "BIN"
+                      : streamMode === "both"
+                      ? `AUTO ${failoverPath === "webrtc" ? "RTC" : "WS"}`
+                      : "WS"}
                   </span>
                 </button>
 
@@ -724,6 +1450,25 @@ export default function PlayPage() {
                   </button>
                 )}
 
+                <EmulatorControls
+                  state={emulatorState}
+                  disabled={movieStatus === "replaying"}
+                  onTogglePause={handleTogglePause}
+                  onReset={(kind) =>
+                    runEmulatorCommand({ type: "reset", kind })
+                  }
+                  onSpeedChange={handleSpeedChange}
+                  compact
+                  className="p-1 bg-slate-800/80 rounded-lg"
+                />
+
+                <AudioControls
+                  settings={audioSettings}
+                  onChange={setAudioSettings}
+                  compact
+                  className="p-1 bg-slate-800/80 rounded-lg"
+                />
+
                 <button
                   onClick={() => setShowControls(false)}
                   className="p-2 bg-slate-800/80 rounded-lg text-slate-400"
@@ -772,6 +1517,7 @@ export default function PlayPage() {
 
             {/* Bottom Center - START/SELECT */}
             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-4">
+              <MacroTouchButtons className="px-3 py-1.5 rounded-full text-xs font-bold border border-slate-600/50" />
               <TouchButton
                 button="SELECT"
                 className="px-4 py-1.5 bg-slate-700/80 active:bg-slate-600 rounded-full text-slate-300 text-xs font-bold border border-slate-600/50"
@@ -1168,6 +1914,16 @@ export default function PlayPage() {
           </div>
         )}
 
+        {/* Connection Lost */}
+        {reconnectStatus?.state === "failed" && (
+          <ConnectionLostPanel
+            restoring={restoringSave}
+            canRestore={!!romId}
+            onRestore={handleRestoreLastSave}
+            onDismiss={resetSocketConnection}
+          />
+        )}
+
         {/* Main Content - Responsive Grid */}
         <div
           className={`${
@@ -1182,212 +1938,49 @@ export default function PlayPage() {
               isMobile ? "flex flex-col w-full z-10" : "space-y-4"
             }`}
           >
-            <div
-              className={`relative bg-slate-900/50 border border-slate-700/50 backdrop-blur-sm overflow-hidden ${
-                isMobile ? "shrink-0 rounded-lg p-1.5 pb-2" : "rounded-2xl"
-              }`}
+            <GameCanvas
+              ref={canvasRef}
+              isPlaying={isPlaying}
+              isMobile={isMobile}
+              onStartGame={startEmulation}
+              glCanvasRef={glCanvasRef}
+              glActive={glActive}
+              videoCanvasRef={videoCanvasRef}
+              videoActive={videoWorkerActive}
+              rewinding={emulatorState.rewinding}
+              overlay={showStats && <StatsOverlay stats={streamStats} />}
             >
-              {/* Game Canvas Container */}
-              <div className={isMobile ? "" : "p-3 md:p-6"}>
-                <div className="relative bg-black rounded-xl overflow-hidden border-2 border-slate-800">
-                  {/* Scanline Effect */}
-                  <div className="absolute inset-0 opacity-[0.03] pointer-events-none bg-[linear-gradient(transparent_50%,rgba(0,0,0,0.5)_50%)] bg-size-[100%_4px] z-10" />
-
-                  {/* Power LED */}
-                  <div className="absolute top-2 right-2 md:top-3 md:right-3 z-20">
-                    <span
-                      className={`w-2 h-2 rounded-full block ${
-                        isPlaying
-                          ? "bg-green-400 shadow-[0_0_10px_rgba(74,222,128,0.8)]"
-                          : "bg-slate-600"
-                      }`}
-                    />
-                  </div>
-
-                  <canvas
-                    ref={canvasRef}
-                    width={240}
-                    height={160}
-                    className="w-full h-auto block"
-                    style={{ imageRendering: "pixelated" }}
-                  />
-
-                  {/* Play Overlay */}
-                  {!isPlaying && (
-                    <div
-                      onClick={startEmulation}
-                      className="absolute inset-0 bg-slate-950/80 flex flex-col items-center justify-center z-10 cursor-pointer"
-                    >
-                      <div className="w-14 h-14 md:w-16 md:h-16 rounded-full bg-white/10 backdrop-blur-md border-2 border-white/20 flex items-center justify-center mb-3 md:mb-4 hover:scale-110 transition-transform">
-                        <svg
-                          className="w-7 h-7 md:w-8 md:h-8 text-white ml-1"
-                          fill="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path d="M8 5v14l11-7z" />
-                        </svg>
-                      </div>
-                      <span className="text-white font-bold text-base md:text-lg tracking-wide">
-                        PRESS START
-                      </span>
-                    </div>
-                  )}
-                </div>
-
-                {/* Control Bar */}
-                <div
-                  className={`${
-                    isMobile ? "mt-1.5" : "mt-3 md:mt-4"
-                  } flex items-center justify-between gap-2 md:gap-4`}
-                >
-                  <div className="flex items-center gap-2">
-                    <Badge
-                      className={`font-mono text-[9px] md:text-xs px-1.5 py-0.5 ${
-                        isPlaying
-                          ? "bg-green-500/20 text-green-300 border-green-500/50"
-                          : status === "Error"
-                          ? "bg-red-500/20 text-red-300 border-red-500/50"
-                          : "bg-slate-500/20 text-slate-300 border-slate-500/50"
-                      }`}
-                    >
-                      {status.toUpperCase()}
-                    </Badge>
-                  </div>
-
-                  <div className="flex gap-1">
-                    {/* Stream Mode Toggle - Mobile */}
-                    {isMobile && (
-                      <Button
-                        onClick={() =>
-                          handleStreamModeChange(
-                            streamMode === "websocket" ? "webrtc" : "websocket"
-                          )
-                        }
-                        disabled={isPlaying}
-                        size="sm"
-                        className={`font-bold px-1.5 py-1 rounded h-6 ${
-                          streamMode === "webrtc"
-                            ? "bg-green-600 hover:bg-green-500"
-                            : "bg-cyan-600 hover:bg-cyan-500"
-                        } text-white disabled:opacity-40`}
-                        title={`Mode: ${streamMode.toUpperCase()}`}
-                      >
-                        <svg
-                          className="w-3 h-3"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          {streamMode === "webrtc" ? (
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.857 15.355-15.857 21.213 0"
-                            />
-                          ) : (
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M5 12h14M12 5l7 7-7 7"
-                            />
-                          )}
-                        </svg>
-                      </Button>
-                    )}
-
-                    {/* Save States Button - Mobile */}
-                    {isMobile && rom && (
-                      <Button
-                        onClick={() => setShowSaveStatesModal(true)}
-                        size="sm"
-                        className="bg-amber-600 hover:bg-amber-500 text-white font-bold px-1.5 py-1 rounded h-6"
-                        title="Save States"
-                      >
-                        <svg
-                          className="w-3 h-3"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
-                          />
-                        </svg>
-                      </Button>
-                    )}
-
-                    {/* Fullscreen Button - Mobile */}
-                    {isMobile && sessionId && (
-                      <Button
-                        onClick={toggleFullscreen}
-                        size="sm"
-                        className="bg-purple-600 hover:bg-purple-500 text-white font-bold px-1.5 py-1 rounded h-6"
-                      >
-                        <svg
-                          className="w-3 h-3"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4"
-                          />
-                        </svg>
-                      </Button>
-                    )}
-
-                    <Button
-                      onClick={startEmulation}
-                      disabled={!!sessionId}
-                      size="sm"
-                      className={`bg-green-600 hover:bg-green-500 text-white font-bold rounded disabled:opacity-40 ${
-                        isMobile ? "px-1.5 py-1 h-6" : "px-3 md:px-4 py-2"
-                      }`}
-                    >
-                      <svg
-                        className={isMobile ? "w-3.5 h-3.5" : "w-4 h-4 md:mr-2"}
-                        fill="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path d="M8 5v14l11-7z" />
-                      </svg>
-                      <span className="hidden md:inline">START</span>
-                    </Button>
-
-                    <Button
-                      onClick={stopEmulation}
-                      disabled={!sessionId}
-                      size="sm"
-                      className={`bg-red-600 hover:bg-red-500 text-white font-bold rounded disabled:opacity-40 ${
-                        isMobile ? "px-1.5 py-1 h-6" : "px-3 md:px-4 py-2"
-                      }`}
-                    >
-                      <svg
-                        className={isMobile ? "w-3 h-3" : "w-4 h-4 md:mr-2"}
-                        fill="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <rect x="6" y="6" width="12" height="12" rx="1" />
-                      </svg>
-                      <span className="hidden md:inline">STOP</span>
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            </div>
+              {/* Control Bar */}
+              <GameControlBar
+                status={status}
+                isPlaying={isPlaying}
+                sessionId={sessionId}
+                streamMode={streamMode}
+                reconnectStatus={reconnectStatus}
+                statsVisible={showStats}
+                audioSettings={audioSettings}
+                onAudioSettingsChange={setAudioSettings}
+                emulatorState={emulatorState}
+                emulatorControlsDisabled={movieStatus === "replaying"}
+                onTogglePause={handleTogglePause}
+                onReset={(kind) => runEmulatorCommand({ type: "reset", kind })}
+                onSpeedChange={handleSpeedChange}
+                isMobile={isMobile}
+                onStart={startEmulation}
+                onStop={stopEmulation}
+                onToggleFullscreen={toggleFullscreen}
+                onOpenSaveStates={
+                  rom ? () => setShowSaveStatesModal(true) : undefined
+                }
+                onToggleStats={() => setShowStats((prev) => !prev)}
+                onStreamModeChange={handleStreamModeChange}
+              />
+            </GameCanvas>
 
             {/* Mobile Virtual Controller (Portrait Mode) */}
             {isMobile && sessionId && !isFullscreen && (
               <div className="bg-slate-900/50 border border-slate-700/50 rounded-lg backdrop-blur-sm p-2 shrink-0 mt-8">
-                {/* L/R Buttons at top */}
+                {/* L/R Buttons at top, macros in between */}
                 <div className="flex justify-between mb-2">
                   <TouchButton
                     button="L"
@@ -1395,6 +1988,9 @@ export default function PlayPage() {
                   >
                     L
                   </TouchButton>
+                  <div className="flex gap-1 overflow-x-auto">
+                    <MacroTouchButtons className="h-7 px-2 rounded text-[10px] font-bold whitespace-nowrap" />
+                  </div>
                   <TouchButton
                     button="R"
                     className="h-7 px-4 bg-slate-700 active:bg-purple-600 rounded text-[10px] font-bold text-slate-300"
@@ -1658,9 +2254,141 @@ export default function PlayPage() {
                     Low latency, experimental
                   </p>
                 </button>
+
+                <button
+                  onClick={() => handleStreamModeChange("binary")}
+                  disabled={isPlaying}
+                  className={`w-full p-2 rounded-lg text-xs font-mono transition-all ${
+                    streamMode === "binary"
+                      ? "bg-purple-600/50 text-purple-300 border border-purple-500/50"
+                      : "bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:bg-slate-700/50"
+                  } ${isPlaying ? "opacity-50 cursor-not-allowed" : ""}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>Binary</span>
+                    {streamMode === "binary" && (
+                      <span className="w-2 h-2 bg-purple-400 rounded-full" />
+                    )}
+                  </div>
+                  <p className="text-[10px] text-slate-500 mt-1 text-left">
+                    Single connection, WebTransport if available
+                  </p>
+                </button>
+
+                <button
+                  onClick={() => handleStreamModeChange("both")}
+                  disabled={isPlaying}
+                  className={`w-full p-2 rounded-lg text-xs font-mono transition-all ${
+                    streamMode === "both"
+                      ? "bg-amber-600/50 text-amber-300 border border-amber-500/50"
+                      : "bg-slate-800/50 text-slate-400 border border-slate-700/50 hover:bg-slate-700/50"
+                  } ${isPlaying ? "opacity-50 cursor-not-allowed" : ""}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>Auto</span>
+                    {streamMode === "both" && (
+                      <span className="w-2 h-2 bg-amber-400 rounded-full" />
+                    )}
+                  </div>
+                  <p className="text-[10px] text-slate-500 mt-1 text-left">
+                    {streamMode === "both"
+                      ? `WebRTC with WebSocket standby, playing: ${
+                          failoverPath === "webrtc" ? "WebRTC" : "WebSocket"
+                        }`
+                      : "WebRTC with WebSocket standby, switches on stalls"}
+                  </p>
+                </button>
+
+                <label
+                  className={`flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50 text-xs font-mono text-slate-400 ${
+                    isPlaying || lanOnlyForced
+                      ? "opacity-50 cursor-not-allowed"
+                      : "cursor-pointer"
+                  }`}
+                  title={
+                    lanOnlyForced
+                      ? "Imposé par la configuration du serveur (VITE_WEBRTC_LAN_ONLY)"
+                      : "WebRTC sans STUN/TURN, uniquement sur le réseau local"
+                  }
+                >
+                  <span>LAN only{lanOnlyForced && " (imposé)"}</span>
+                  <input
+                    type="checkbox"
+                    checked={lanOnly}
+                    disabled={isPlaying || lanOnlyForced}
+                    onChange={(e) => handleLanOnlyChange(e.target.checked)}
+                    className="accent-green-500"
+                  />
+                </label>
+
+                <label
+                  className="flex items-center justify-between p-2 rounded-lg bg-slate-800/50 border border-slate-700/50 text-xs font-mono text-slate-400"
+                  title="Tampon d'images WebSocket : plus de délai, moins de saccades"
+                >
+                  <span>Frame buffer</span>
+                  <select
+                    value={frameDelay}
+                    onChange={(e) =>
+                      handleFrameDelayChange(Number(e.target.value))
+                    }
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                  >
+                    <option value={0}>0 ms</option>
+                    <option value={17}>17 ms</option>
+                    <option value={33}>33 ms</option>
+                    <option value={50}>50 ms</option>
+                    <option value={67}>67 ms</option>
+                  </select>
+                </label>
               </div>
             </div>
 
+            {/* Video Filter */}
+            <VideoFilterPanel
+              settings={videoFilter}
+              supported={webglSupported}
+              onChange={handleVideoFilterChange}
+            />
+
+            {/* Rewind */}
+            <RewindPanel
+              settings={rewindSettings}
+              onChange={handleRewindSettingsChange}
+              sessionActive={!!sessionId}
+            />
+
+            {/* Latency Diagnostics */}
+            <LatencyPanel
+              enabled={latencyEnabled}
+              unavailableReason={latencyUnavailable}
+              summaries={latencySummaries}
+              onToggle={handleLatencyToggle}
+              onReset={() => latencyProbeRef.current.reset()}
+            />
+
+            {/* Input Movies */}
+            <MoviePanel
+              status={movieStatus}
+              message={movieMessage}
+              canRecord={isPlaying}
+              onStartRecording={handleStartRecording}
+              onStopRecording={handleStopRecording}
+              onReplay={handleReplayMovie}
+              onStopReplay={handleStopReplay}
+            />
+
+            {/* Cheats */}
+            <CheatsPanel
+              cheats={cheats}
+              message={cheatsMessage}
+              onAdd={handleAddCheat}
+              onToggle={(cheat) =>
+                handleUpdateCheat(cheat, { enabled: !cheat.enabled })
+              }
+              onRename={(cheat, name) => handleUpdateCheat(cheat, { name })}
+              onDelete={handleDeleteCheat}
+            />
+
             {/* Save States */}
             <div className="bg-slate-900/50 border border-slate-700/50 rounded-2xl backdrop-blur-sm p-4">
               <h3 className="text-sm font-bold text-white mb-4 flex items-center gap-2">
@@ -1752,6 +2480,9 @@ export default function PlayPage() {
         open={showControlsConfig}
         onOpenChange={setShowControlsConfig}
         onMappingsChange={handleKeyMappingsChange}
+        onGamepadProfileChange={handleGamepadProfileChange}
+        romId={romId}
+        onInputProfileChange={setInputProfile}
       />
 
       {/* Save States Modal */}